@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import InputField from '@/components/forms/InputField';
+import FooterLink from '@/components/forms/FooterLink';
+import { requestPasswordReset } from '@/lib/actions/auth.actions';
+
+const ForgotPassword = () => {
+    const [sentTo, setSentTo] = useState<string | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        formState: { errors, isSubmitting },
+    } = useForm<ForgotPasswordFormData>({
+        defaultValues: { email: '' },
+        mode: 'onBlur',
+    });
+
+    const onSubmit = async (data: ForgotPasswordFormData) => {
+        await requestPasswordReset(data);
+        setSentTo(data.email);
+    }
+
+    return (
+        <>
+            <h1 className="form-title">Forgot your password?</h1>
+
+            {sentTo ? (
+                <div className="space-y-5">
+                    <p className="auth-message">
+                        If an account exists for <span className="text-gray-100">{sentTo}</span>, we sent a link to
+                        reset your password. It expires in one hour.
+                    </p>
+                    <FooterLink text="Remembered it?" linkText="Back to sign in" href="/sign-in" />
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+                    <p className="auth-message">Enter the email you signed up with and we&apos;ll send you a reset link.</p>
+
+                    <InputField
+                        name="email"
+                        label="Email"
+                        placeholder="contact@jsmastery.com"
+                        register={register}
+                        error={errors.email}
+                        validation={{ required: 'Email is required', pattern: /^\S+@\S+\.\S+$/ }}
+                    />
+
+                    <Button type="submit" disabled={isSubmitting} className="yellow-btn w-full mt-5">
+                        {isSubmitting ? 'Sending' : 'Send Reset Link'}
+                    </Button>
+
+                    <FooterLink text="Remembered it?" linkText="Back to sign in" href="/sign-in" />
+                </form>
+            )}
+        </>
+    )
+}
+
+export default ForgotPassword;
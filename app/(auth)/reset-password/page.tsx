@@ -0,0 +1,21 @@
+import ResetPasswordForm from "@/components/ResetPasswordForm";
+import FooterLink from "@/components/forms/FooterLink";
+
+export default async function ResetPasswordPage({ searchParams }: AuthTokenPageProps) {
+    const { token } = await searchParams;
+
+    return (
+        <>
+            <h1 className="form-title">Choose a new password</h1>
+
+            {token ? (
+                <ResetPasswordForm token={token} />
+            ) : (
+                <div className="space-y-5">
+                    <p className="auth-message">This reset link is missing its token. Request a new link to continue.</p>
+                    <FooterLink text="Need a new link?" linkText="Reset password" href="/forgot-password" />
+                </div>
+            )}
+        </>
+    )
+}
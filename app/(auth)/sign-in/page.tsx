@@ -41,6 +41,7 @@ import {signInEmail} from "better-auth/api";
 // Importa useRouter de Next.js para navegación programática
 // Permite redirigir al usuario después de un login exitoso
 import {useRouter} from "next/navigation";
+import Link from "next/link";
 
 // ============================================
 // COMPONENTE SIGNIN
@@ -101,7 +102,10 @@ const SignIn = () => {
             
             // Si el login fue exitoso (result.success === true)
             // redirige al usuario a la página principal '/'
-            if(result.success) router.push('/');
+            // Cuentas con 2FA: falta ingresar el código de la app autenticadora
+            if(result.success && result.twoFactorRequired) router.push('/two-factor');
+            else if(result.success) router.push('/');
+            else toast.error('Sign in failed', { description: result.error });
             
         } catch (e) {
             // Si ocurre algún error durante el proceso de login:
@@ -185,6 +189,13 @@ const SignIn = () => {
                     {isSubmitting ? 'Signing In' : 'Sign In'}
                 </Button>
 
+                {/* Enlace para restablecer la contraseña por email */}
+                <div className="text-right">
+                    <Link href="/forgot-password" className="text-sm text-gray-500 hover:text-yellow-500">
+                        Forgot password?
+                    </Link>
+                </div>
+
                 {/* ============================================
                     ENLACE A REGISTRO
                     ============================================ */}
@@ -117,7 +117,15 @@ const SignUp = () => {
             
             // Si el registro fue exitoso (usuario creado y autenticado)
             // redirige al usuario a la página principal '/'
-            if(result.success) router.push('/');
+            if(!result.success) {
+                toast.error('Sign up failed', { description: result.error });
+            } else if(result.requiresVerification) {
+                // Con verificación obligatoria no hay sesión hasta abrir el link del email
+                toast.success('Check your inbox', { description: 'Confirm your email to finish creating your account.' });
+                router.push('/sign-in');
+            } else {
+                router.push('/');
+            }
             
         } catch (e) {
             // Si algo sale mal durante el registro:
@@ -0,0 +1,109 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import InputField from '@/components/forms/InputField';
+import FooterLink from '@/components/forms/FooterLink';
+import { verifyTwoFactorChallenge } from '@/lib/actions/twoFactor.actions';
+
+const TwoFactorChallenge = () => {
+    const router = useRouter();
+
+    const {
+        register,
+        handleSubmit,
+        watch,
+        setValue,
+        resetField,
+        formState: { errors, isSubmitting },
+    } = useForm<TwoFactorChallengeFormData>({
+        defaultValues: { code: '', method: 'totp', trustDevice: false },
+        mode: 'onSubmit',
+    });
+
+    const method = watch('method');
+    const usingBackupCode = method === 'backup';
+
+    const switchMethod = () => {
+        setValue('method', usingBackupCode ? 'totp' : 'backup');
+        resetField('code');
+    }
+
+    const onSubmit = async (data: TwoFactorChallengeFormData) => {
+        const result = await verifyTwoFactorChallenge(data);
+
+        if (result.success) {
+            if (data.method === 'backup') {
+                toast.success('Signed in with a backup code', {
+                    description: 'That code no longer works. Generate new ones in Settings → Security if you are running low.',
+                });
+            }
+            router.push('/');
+            return;
+        }
+
+        toast.error('Verification failed', { description: result.error });
+        if (result.expired) router.push('/sign-in');
+        else resetField('code');
+    }
+
+    return (
+        <>
+            <h1 className="form-title">Two-factor authentication</h1>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+                <p className="auth-message">
+                    {usingBackupCode
+                        ? 'Enter one of the backup codes you saved when you turned on two-factor authentication. Each code works once.'
+                        : 'Enter the 6-digit code from your authenticator app.'}
+                </p>
+
+                {usingBackupCode ? (
+                    <InputField
+                        key="backup"
+                        name="code"
+                        label="Backup Code"
+                        placeholder="xxxxx-xxxxx"
+                        register={register}
+                        error={errors.code}
+                        validation={{ required: 'Backup code is required' }}
+                    />
+                ) : (
+                    <InputField
+                        key="totp"
+                        name="code"
+                        label="Authentication Code"
+                        placeholder="123456"
+                        register={register}
+                        error={errors.code}
+                        validation={{
+                            required: 'Code is required',
+                            pattern: { value: /^\s*(\d\s*){6}$/, message: 'Enter the 6-digit code' },
+                        }}
+                    />
+                )}
+
+                <label className="auth-checkbox">
+                    <input type="checkbox" {...register('trustDevice')} />
+                    Trust this device for 30 days
+                </label>
+
+                <Button type="submit" disabled={isSubmitting} className="yellow-btn w-full mt-5">
+                    {isSubmitting ? 'Verifying' : 'Verify'}
+                </Button>
+
+                <div className="text-center">
+                    <button type="button" onClick={switchMethod} className="text-sm text-gray-500 hover:text-yellow-500">
+                        {usingBackupCode ? 'Use your authenticator app instead' : 'Lost your device? Use a backup code'}
+                    </button>
+                </div>
+
+                <FooterLink text="Not you?" linkText="Back to sign in" href="/sign-in" />
+            </form>
+        </>
+    )
+}
+
+export default TwoFactorChallenge;
@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+import EmailLogFilters from "@/components/EmailLogFilters";
+import EmailLogTable from "@/components/EmailLogTable";
+import { getEmailLog } from "@/lib/actions/emailLog.actions";
+import { EMAIL_LOG_PAGE_SIZE } from "@/lib/constants";
+
+export default async function EmailLogPage({ searchParams }: EmailLogPageProps) {
+  const { q = "", status = "" } = await searchParams;
+  const entries = await getEmailLog({ query: q, status });
+  if (!entries) notFound();
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h2 className="watchlist-title">Email Log</h2>
+        <p className="settings-description">
+          Every email the app sent or tried to send in the last 90 days, newest first. Showing up to {EMAIL_LOG_PAGE_SIZE}.
+        </p>
+      </div>
+
+      <EmailLogFilters query={q} status={status} />
+
+      {entries.length === 0 ? (
+        <p className="settings-description">No emails match.</p>
+      ) : (
+        <EmailLogTable entries={entries} />
+      )}
+    </section>
+  );
+}
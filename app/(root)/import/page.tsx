@@ -0,0 +1,19 @@
+import ImportWizard from "@/components/ImportWizard";
+import { getImportMappings } from "@/lib/actions/import.actions";
+
+export default async function ImportPage({ searchParams }: ImportPageProps) {
+  const { target } = await searchParams;
+  const savedMappings = await getImportMappings();
+
+  return (
+    <section className="max-w-4xl space-y-6">
+      <div>
+        <h2 className="watchlist-title">Import from CSV</h2>
+        <p className="text-gray-500 mt-2">
+          Upload a broker export, match its columns, and review every row before anything is saved.
+        </p>
+      </div>
+      <ImportWizard savedMappings={savedMappings} defaultTarget={target === "journal" ? "journal" : "transactions"} />
+    </section>
+  );
+}
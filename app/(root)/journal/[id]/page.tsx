@@ -0,0 +1,18 @@
+import { notFound } from "next/navigation";
+import JournalEntryForm from "@/components/JournalEntryForm";
+import { getJournalEntry } from "@/lib/actions/journal.actions";
+
+export default async function JournalEntryPage({ params }: JournalEntryPageProps) {
+  const { id } = await params;
+  const entry = await getJournalEntry(id);
+  if (!entry) notFound();
+
+  return (
+    <section className="max-w-4xl space-y-6">
+      <h2 className="watchlist-title">
+        {entry.symbol} {entry.side === "long" ? "Long" : "Short"} Trade
+      </h2>
+      <JournalEntryForm entry={entry} />
+    </section>
+  );
+}
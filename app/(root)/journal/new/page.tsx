@@ -0,0 +1,12 @@
+import JournalEntryForm from "@/components/JournalEntryForm";
+
+export default async function NewJournalEntryPage({ searchParams }: JournalPageProps) {
+  const { symbol } = await searchParams;
+
+  return (
+    <section className="max-w-4xl space-y-6">
+      <h2 className="watchlist-title">New Journal Entry</h2>
+      <JournalEntryForm defaultSymbol={symbol?.trim().toUpperCase()} />
+    </section>
+  );
+}
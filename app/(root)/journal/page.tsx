@@ -0,0 +1,55 @@
+import Link from "next/link";
+import { ChartLine, NotebookPen, Plus, Upload } from "lucide-react";
+import JournalTable from "@/components/JournalTable";
+import { getJournalEntries } from "@/lib/actions/journal.actions";
+
+export default async function JournalPage({ searchParams }: JournalPageProps) {
+  const { symbol } = await searchParams;
+  const filterSymbol = symbol?.trim().toUpperCase();
+  const entries = await getJournalEntries({ symbol: filterSymbol });
+  const newEntryHref = filterSymbol ? `/journal/new?symbol=${encodeURIComponent(filterSymbol)}` : "/journal/new";
+
+  return (
+    <section className="space-y-6">
+      <div className="journal-header">
+        <div className="flex items-center gap-4">
+          <h2 className="watchlist-title">Trade Journal</h2>
+          {filterSymbol && (
+            <span className="journal-filter">
+              {filterSymbol}
+              <Link href="/journal" className="text-gray-400 hover:text-yellow-500" aria-label="Clear symbol filter">
+                ×
+              </Link>
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <Link href="/import?target=journal" className="journal-link-btn">
+            <Upload className="h-4 w-4" />
+            Import
+          </Link>
+          <Link href="/journal/stats" className="journal-link-btn">
+            <ChartLine className="h-4 w-4" />
+            Stats
+          </Link>
+          <Link href={newEntryHref} className="journal-new-btn">
+            <Plus className="h-4 w-4" />
+            New Entry
+          </Link>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="watchlist-empty">
+          <NotebookPen className="watchlist-star" />
+          <h3 className="empty-title">{filterSymbol ? `No trades logged for ${filterSymbol}` : "Your journal is empty"}</h3>
+          <p className="empty-description">
+            Log each trade with your thesis, emotions and lessons to learn what actually works for you.
+          </p>
+        </div>
+      ) : (
+        <JournalTable entries={entries} />
+      )}
+    </section>
+  );
+}
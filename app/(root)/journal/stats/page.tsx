@@ -0,0 +1,81 @@
+import Link from "next/link";
+import EquityCurve from "@/components/EquityCurve";
+import JournalBreakdownTable from "@/components/JournalBreakdownTable";
+import { getJournalStats } from "@/lib/actions/journal.actions";
+import { cn, formatChangePercent, formatPrice, getChangeColorClass } from "@/lib/utils";
+
+const formatR = (value: number | null) => (value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`);
+
+export default async function JournalStatsPage() {
+  const stats = await getJournalStats();
+  const maxBucket = Math.max(1, ...stats.rMultipleDistribution.map((bucket) => bucket.count));
+
+  const cards = [
+    { label: "Net P&L", value: formatPrice(stats.totalPnl), color: getChangeColorClass(stats.totalPnl) },
+    { label: "Win Rate", value: `${stats.winRate.toFixed(1)}%` },
+    { label: "Avg Win", value: formatPrice(stats.averageWin), color: "text-green-500" },
+    { label: "Avg Loss", value: formatPrice(stats.averageLoss), color: stats.losses ? "text-red-500" : undefined },
+    { label: "Profit Factor", value: stats.profitFactor === null ? "—" : stats.profitFactor.toFixed(2) },
+    { label: "Expectancy", value: formatPrice(stats.expectancy), color: getChangeColorClass(stats.expectancy) },
+    { label: "Avg Return", value: formatChangePercent(stats.averageReturnPercent) || "0.00%", color: getChangeColorClass(stats.averageReturnPercent) },
+    { label: "Max Drawdown", value: stats.maxDrawdown ? formatPrice(-stats.maxDrawdown) : formatPrice(0), color: stats.maxDrawdown ? "text-red-500" : undefined },
+    { label: "Avg R", value: formatR(stats.averageRMultiple), color: getChangeColorClass(stats.averageRMultiple ?? undefined) },
+    { label: "Closed Trades", value: String(stats.closedTrades) },
+    { label: "Wins / Losses", value: `${stats.wins} / ${stats.losses}` },
+    { label: "Open Trades", value: String(stats.openTrades) },
+  ];
+
+  return (
+    <section className="space-y-6">
+      <div className="journal-header">
+        <h2 className="watchlist-title">Journal Statistics</h2>
+        <Link href="/journal" className="journal-link-btn">
+          Back to Journal
+        </Link>
+      </div>
+
+      <div className="journal-stat-grid">
+        {cards.map((card) => (
+          <div key={card.label} className="journal-stat-card">
+            <span className="journal-stat-label">{card.label}</span>
+            <span className={cn("journal-stat-value", card.color)}>{card.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="journal-stats-panel">
+        <h3 className="journal-form-heading">Equity Curve</h3>
+        <EquityCurve points={stats.equityCurve} />
+      </div>
+
+      <div className="journal-stats-panel">
+        <h3 className="journal-form-heading">R-Multiple Distribution</h3>
+        {stats.rMultipleTrades === 0 ? (
+          <p className="text-sm text-gray-500">Record a stop price on your trades to see results in R.</p>
+        ) : (
+          <div className="space-y-2">
+            {stats.rMultipleDistribution.map((bucket) => (
+              <div key={bucket.label} className="grid grid-cols-[6rem_1fr_2rem] items-center gap-3 text-sm text-gray-400">
+                <span>{bucket.label}</span>
+                <div className="r-multiple-bar" style={{ width: `${(bucket.count / maxBucket) * 100}%` }} />
+                <span className="text-right">{bucket.count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <JournalBreakdownTable title="By Strategy" labelHeader="Strategy" rows={stats.byStrategy} />
+        <JournalBreakdownTable title="By Symbol" labelHeader="Symbol" rows={stats.bySymbol} />
+        <JournalBreakdownTable title={`By Weekday (${stats.timezone})`} labelHeader="Weekday" rows={stats.byWeekday} />
+        <JournalBreakdownTable title={`By Hour (${stats.timezone})`} labelHeader="Hour" rows={stats.byHour} />
+      </div>
+
+      <p className="settings-description">
+        Weekdays and hours use your timezone from{" "}
+        <Link href="/settings/notifications" className="footer-link">notification settings</Link>.
+      </p>
+    </section>
+  );
+}
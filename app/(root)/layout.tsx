@@ -18,6 +18,9 @@ import {headers} from "next/headers";
 // Se usará para enviar usuarios no autenticados a la página de login
 import {redirect} from "next/navigation";
 
+// Registra la última visita del usuario (para el email de usuarios inactivos)
+import {recordUserActivity} from "@/lib/activity/userActivity";
+
 // ============================================
 // COMPONENTE LAYOUT (ASYNC)
 // ============================================
@@ -43,6 +46,9 @@ const Layout = async ({ children }: { children : React.ReactNode }) => {
     // El operador ?. (optional chaining) previene errores si session es null/undefined
     if(!session?.user) redirect('/sign-in');
 
+    // Actualiza "visto por última vez"; escribe en la DB como máximo cada 15 minutos
+    await recordUserActivity(session.user.id);
+
     // ============================================
     // PREPARACIÓN DE DATOS DEL USUARIO
     // ============================================
@@ -69,7 +75,8 @@ const Layout = async ({ children }: { children : React.ReactNode }) => {
                 ============================================ */}
             {/* Renderiza el componente Header pasándole los datos del usuario */}
             {/* El Header mostrará el nombre/email y probablemente opciones de navegación y logout */}
-            <Header user={user} />
+            {/* emailVerified: el link de administración solo aparece con el email verificado */}
+            <Header user={user} emailVerified={session.user.emailVerified} />
 
             {/* ============================================
                 CONTENEDOR DE CONTENIDO
@@ -0,0 +1,85 @@
+import Link from "next/link";
+import { Upload } from "lucide-react";
+import HoldingsTable from "@/components/HoldingsTable";
+import TransactionLedger from "@/components/TransactionLedger";
+import TransactionModal from "@/components/TransactionModal";
+import { getPortfolio, getTransactions } from "@/lib/actions/portfolio.actions";
+import { COST_BASIS_METHOD_OPTIONS } from "@/lib/constants";
+import { cn, formatPrice, getChangeColorClass } from "@/lib/utils";
+
+export default async function PortfolioPage({ searchParams }: PortfolioPageProps) {
+  const { method } = await searchParams;
+  const [portfolio, transactions] = await Promise.all([
+    getPortfolio((method as CostBasisMethod) ?? "fifo"),
+    getTransactions(),
+  ]);
+
+  // Lot picking only makes sense when sells are matched by specific lot
+  const openLots = portfolio.method === "specific" ? portfolio.holdings.flatMap((holding) => holding.lots) : [];
+
+  const cards = [
+    { label: "Total Value", value: formatPrice(portfolio.marketValue + portfolio.cash) },
+    { label: "Market Value", value: formatPrice(portfolio.marketValue) },
+    { label: "Cash", value: formatPrice(portfolio.cash), color: portfolio.cash < 0 ? "text-red-500" : undefined },
+    { label: "Unrealized P&L", value: formatPrice(portfolio.unrealizedPnl), color: getChangeColorClass(portfolio.unrealizedPnl) },
+    { label: "Realized P&L", value: formatPrice(portfolio.realizedPnl), color: getChangeColorClass(portfolio.realizedPnl) },
+    { label: "Dividends", value: formatPrice(portfolio.dividends) },
+  ];
+
+  return (
+    <section className="space-y-6">
+      <div className="journal-header">
+        <h2 className="watchlist-title">Portfolio</h2>
+        <div className="flex items-center gap-3">
+          <div className="portfolio-method-toggle">
+            {COST_BASIS_METHOD_OPTIONS.map((option) => (
+              <Link
+                key={option.value}
+                href={`/portfolio?method=${option.value}`}
+                className={cn("portfolio-method-option", portfolio.method === option.value && "portfolio-method-active")}
+              >
+                {option.label}
+              </Link>
+            ))}
+          </div>
+          <Link href="/import?target=transactions" className="journal-link-btn">
+            <Upload className="h-4 w-4" />
+            Import
+          </Link>
+          <TransactionModal openLots={openLots} />
+        </div>
+      </div>
+
+      <div className="journal-stat-grid">
+        {cards.map((card) => (
+          <div key={card.label} className="journal-stat-card">
+            <span className="journal-stat-label">{card.label}</span>
+            <span className={cn("journal-stat-value", card.color)}>{card.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {portfolio.warnings.length > 0 && (
+        <ul className="portfolio-warnings">
+          {portfolio.warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="journal-stats-panel">
+        <h3 className="journal-form-heading">Holdings</h3>
+        {portfolio.holdings.length === 0 ? (
+          <p className="alert-empty">Record a buy to see your positions here.</p>
+        ) : (
+          <HoldingsTable holdings={portfolio.holdings} />
+        )}
+      </div>
+
+      <div className="journal-stats-panel">
+        <h3 className="journal-form-heading">Transactions</h3>
+        <TransactionLedger transactions={transactions} />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,104 @@
+import Link from "next/link";
+import { ChevronLeft, ChevronRight, TrendingUp } from "lucide-react";
+import SearchFilters from "@/components/SearchFilters";
+import WatchlistButton from "@/components/WatchlistButton";
+import { searchStocksPaged } from "@/lib/actions/finnhub.actions";
+import { getCurrentUserWatchlistSymbols } from "@/lib/actions/watchlist.actions";
+import { recordSearch } from "@/lib/actions/searchHistory.actions";
+import { cn } from "@/lib/utils";
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const { q, exchange, type, page } = await searchParams;
+  // A new query always lands without filters or a page (SearchFilters resets them), so paging
+  // and filtering through the same results don't record the search again
+  const isNewQuery = !exchange && !type && !page;
+  const [results, watchlistSymbols] = await Promise.all([
+    searchStocksPaged({ query: q, exchange, type, page: Number(page) || 1 }),
+    getCurrentUserWatchlistSymbols(),
+    isNewQuery && q ? recordSearch(q) : undefined,
+  ]);
+  const watchlist = new Set(watchlistSymbols);
+
+  const pageHref = (target: number) => {
+    const params = new URLSearchParams();
+    if (results.query) params.set("q", results.query);
+    if (exchange) params.set("exchange", exchange);
+    if (type) params.set("type", type);
+    if (target > 1) params.set("page", String(target));
+    return `/search?${params.toString()}`;
+  };
+
+  return (
+    <section className="space-y-6">
+      <h2 className="watchlist-title">Search</h2>
+
+      <SearchFilters
+        key={`${results.query}|${exchange ?? ""}|${type ?? ""}`}
+        query={results.query}
+        exchange={exchange}
+        type={type}
+        exchanges={results.exchanges}
+        types={results.types}
+      />
+
+      {!results.query ? (
+        <p className="text-gray-500">Search for a company name or ticker symbol to get started.</p>
+      ) : results.total === 0 ? (
+        <p className="text-gray-500">No results for &quot;{results.query}&quot;.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500">
+            Showing {(results.page - 1) * results.pageSize + 1}–{Math.min(results.page * results.pageSize, results.total)} of{" "}
+            {results.total} results for &quot;{results.query}&quot;
+          </p>
+
+          <ul className="search-page-results">
+            {results.results.map((stock) => (
+              <li key={stock.symbol} className="search-page-item">
+                <Link href={`/stocks/${stock.symbol}`} className="search-item-link border-b-0 flex-1">
+                  <TrendingUp className="h-4 w-4 text-gray-500" />
+                  <div className="flex-1">
+                    <div className="search-item-name">{stock.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {stock.symbol} | {stock.exchange} | {stock.type}
+                    </div>
+                  </div>
+                </Link>
+                <WatchlistButton
+                  symbol={stock.symbol}
+                  company={stock.name}
+                  isInWatchlist={watchlist.has(stock.symbol)}
+                  type="icon"
+                />
+              </li>
+            ))}
+          </ul>
+
+          {results.totalPages > 1 && (
+            <nav className="flex items-center justify-center gap-4 text-sm text-gray-400" aria-label="Pagination">
+              <Link
+                href={pageHref(results.page - 1)}
+                aria-disabled={results.page <= 1}
+                className={cn("journal-link-btn", results.page <= 1 && "pointer-events-none opacity-40")}
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Previous
+              </Link>
+              <span>
+                Page {results.page} of {results.totalPages}
+              </span>
+              <Link
+                href={pageHref(results.page + 1)}
+                aria-disabled={results.page >= results.totalPages}
+                className={cn("journal-link-btn", results.page >= results.totalPages && "pointer-events-none opacity-40")}
+              >
+                Next
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </nav>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,13 @@
+import NotificationPreferencesForm from "@/components/NotificationPreferencesForm";
+import { getCurrentNotificationPreferences } from "@/lib/actions/notification.actions";
+
+export default async function NotificationSettingsPage() {
+  const { preferences, saved } = await getCurrentNotificationPreferences();
+
+  return (
+    <section className="max-w-2xl space-y-6">
+      <h2 className="watchlist-title">Notifications</h2>
+      <NotificationPreferencesForm preferences={preferences} saved={saved} />
+    </section>
+  );
+}
@@ -0,0 +1,13 @@
+import ProfileForm from "@/components/ProfileForm";
+import { getCurrentUserProfile } from "@/lib/actions/profile.actions";
+
+export default async function ProfileSettingsPage() {
+  const profile = await getCurrentUserProfile();
+
+  return (
+    <section className="max-w-2xl space-y-6">
+      <h2 className="watchlist-title">Profile</h2>
+      <ProfileForm profile={profile} />
+    </section>
+  );
+}
@@ -0,0 +1,22 @@
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import ActiveSessionsList from "@/components/ActiveSessionsList";
+import SignInActivityList from "@/components/SignInActivityList";
+import { getTwoFactorStatus } from "@/lib/actions/twoFactor.actions";
+import { getActiveSessions, getSignInActivity } from "@/lib/actions/security.actions";
+
+export default async function SecuritySettingsPage() {
+  const [status, sessions, attempts] = await Promise.all([
+    getTwoFactorStatus(),
+    getActiveSessions(),
+    getSignInActivity(),
+  ]);
+
+  return (
+    <section className="max-w-2xl space-y-6">
+      <h2 className="watchlist-title">Security</h2>
+      <TwoFactorSettings status={status} />
+      <ActiveSessionsList sessions={sessions} />
+      <SignInActivityList attempts={attempts} />
+    </section>
+  );
+}
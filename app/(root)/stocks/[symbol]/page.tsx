@@ -1,5 +1,10 @@
+import Link from "next/link";
+import { NotebookPen } from "lucide-react";
 import TradingViewWidget from "@/components/TradingViewWidget";
 import WatchlistButton from "@/components/WatchlistButton";
+import { isSymbolInWatchlist } from "@/lib/actions/watchlist.actions";
+import { getJournalEntries } from "@/lib/actions/journal.actions";
+import { recordStockView } from "@/lib/actions/searchHistory.actions";
 import {
   SYMBOL_INFO_WIDGET_CONFIG,
   CANDLE_CHART_WIDGET_CONFIG,
@@ -11,6 +16,12 @@ import {
 
 export default async function StockDetails({ params }: StockDetailsPageProps) {
   const { symbol } = await params;
+  const upperSymbol = symbol.toUpperCase();
+  const [isInWatchlist, journalEntries] = await Promise.all([
+    isSymbolInWatchlist(symbol),
+    getJournalEntries({ symbol: upperSymbol }),
+    recordStockView(upperSymbol),
+  ]);
   const scriptUrl = `https://s3.tradingview.com/external-embedding/embed-widget-`;
 
   return (
@@ -41,8 +52,19 @@ export default async function StockDetails({ params }: StockDetailsPageProps) {
 
         {/* Right column */}
         <div className="flex flex-col gap-6">
-          <div className="flex items-center justify-between">
-            <WatchlistButton symbol={symbol.toUpperCase()} company={symbol.toUpperCase()} isInWatchlist={false} />
+          <div className="flex items-center justify-between gap-4">
+            <WatchlistButton symbol={upperSymbol} company={upperSymbol} isInWatchlist={isInWatchlist} />
+            <div className="flex items-center gap-4 shrink-0">
+              {journalEntries.length > 0 && (
+                <Link href={`/journal?symbol=${upperSymbol}`} className="text-sm text-gray-400 hover:text-yellow-500">
+                  {journalEntries.length} journal {journalEntries.length === 1 ? "entry" : "entries"}
+                </Link>
+              )}
+              <Link href={`/journal/new?symbol=${upperSymbol}`} className="journal-new-btn">
+                <NotebookPen className="h-4 w-4" />
+                Log Trade
+              </Link>
+            </div>
           </div>
 
           <TradingViewWidget
@@ -0,0 +1,45 @@
+import { Star } from "lucide-react";
+import WatchlistTable from "@/components/WatchlistTable";
+import AlertsList from "@/components/AlertsList";
+import SearchCommand from "@/components/SearchCommand";
+import { getWatchlistWithData, searchStocksWithWatchlistStatus } from "@/lib/actions/watchlist.actions";
+import { getUserAlerts } from "@/lib/actions/alert.actions";
+
+export default async function WatchlistPage() {
+  const [watchlist, alerts, initialStocks] = await Promise.all([
+    getWatchlistWithData(),
+    getUserAlerts(),
+    searchStocksWithWatchlistStatus(),
+  ]);
+
+  if (watchlist.length === 0) {
+    return (
+      <section className="flex watchlist-empty-container">
+        <div className="watchlist-empty">
+          <Star className="watchlist-star" />
+          <h2 className="empty-title">Your watchlist is empty</h2>
+          <p className="empty-description">
+            Start building your watchlist by searching for stocks and clicking the star icon to add them.
+          </p>
+        </div>
+        <SearchCommand initialStocks={initialStocks} />
+      </section>
+    );
+  }
+
+  return (
+    <section className="watchlist-container">
+      <div className="watchlist">
+        <div className="flex items-center justify-between">
+          <h2 className="watchlist-title">Watchlist</h2>
+          <SearchCommand initialStocks={initialStocks} />
+        </div>
+        <WatchlistTable watchlist={watchlist} />
+      </div>
+      <div className="flex watchlist-alerts">
+        <h3 className="watchlist-title">Alerts</h3>
+        <AlertsList alertData={alerts} />
+      </div>
+    </section>
+  );
+}
@@ -13,8 +13,8 @@ import {inngest} from "@/lib/inngest/client";
 
 // Importa las funciones de Inngest que se ejecutarán en segundo plano
 // sendSignUpEmail: función que envía un email de bienvenida cuando un usuario se registra
-// sendDailyNewsSummary: función que envía un resumen diario de noticias del mercado
-import {sendSignUpEmail, sendDailyNewsSummary} from "@/lib/inngest/functions";
+// scheduleDailyDigests + sendUserDigest: resumen diario de noticias, enviado a la hora local de cada usuario
+import {sendSignUpEmail, scheduleDailyDigests, sendUserDigest, checkPriceAlerts, refreshSymbolIndex, sendInactiveUserReminders, retryFailedEmail} from "@/lib/inngest/functions";
 
 // ============================================
 // CONFIGURACIÓN DEL ENDPOINT DE INNGEST
@@ -46,7 +46,12 @@ export const { GET, POST, PUT } = serve({
     // - Configuración de reintentos, delays, etc.
     functions: [
         sendSignUpEmail,       // Función 1: Envía email cuando un usuario se registra
-        sendDailyNewsSummary   // Función 2: Envía resumen diario de noticias del mercado
+        scheduleDailyDigests,  // Función 2: Cada hora, emite 'app/user.digest.due' para los usuarios cuya hora local llegó
+        sendUserDigest,        // Función 2b: Busca noticias, resume con IA y envía el email de un solo usuario
+        checkPriceAlerts,      // Función 3: Evalúa alertas de precio y de volumen cada 5 minutos y envía emails
+        refreshSymbolIndex,    // Función 4: Copia a MongoDB la lista diaria de símbolos para la búsqueda local
+        sendInactiveUserReminders, // Función 5: Cada lunes, email a usuarios inactivos con cómo se movió su watchlist
+        retryFailedEmail       // Función 6: Reintenta con espera creciente los emails cuyo envío falló (ver EmailLog)
     ],
 })
 
@@ -74,17 +79,16 @@ export const { GET, POST, PUT } = serve({
 // 8. La función retorna el resultado a Inngest
 // 9. Si falla, Inngest puede reintentar automáticamente según la configuración
 //
-// ESCENARIO B - Resumen Diario de Noticias (sendDailyNewsSummary):
-// 1. Inngest tiene un cron programado (ej: todos los días a las 8:00 AM)
-// 2. Cuando llega la hora programada, Inngest dispara el evento
-// 3. Inngest hace una petición POST a este endpoint
-// 4. serve() ejecuta sendDailyNewsSummary()
-// 5. La función:
-//    a) Busca las noticias más relevantes del día
+// ESCENARIO B - Resumen Diario de Noticias (scheduleDailyDigests → sendUserDigest):
+// 1. Inngest ejecuta scheduleDailyDigests cada hora (cron '0 * * * *')
+// 2. La función busca los usuarios cuya hora de entrega (según su zona horaria) es la actual
+// 3. Emite un evento 'app/user.digest.due' por usuario (fan-out)
+// 4. Inngest ejecuta sendUserDigest una vez por evento, de forma independiente:
+//    a) Busca las noticias de la watchlist del usuario
 //    b) Usa IA para generar un resumen personalizado
-//    c) Envía el email a todos los usuarios suscritos
-// 6. La función retorna el resultado
-// 7. Inngest registra el éxito/fallo y guarda logs
+//    c) Envía el email con la fecha local del usuario
+// 5. Si un usuario falla, solo se reintenta su envío; los demás no se ven afectados
+// 6. La idempotencia (usuario + fecha local) evita enviar dos resúmenes el mismo día
 //
 // ============================================
 // PROPÓSITO GENERAL:
@@ -112,8 +116,8 @@ export const { GET, POST, PUT } = serve({
 //    - Propósito: dar bienvenida y confirmar cuenta
 //    - Beneficio: no bloquea el registro, si falla se reintenta
 //
-// 2. sendDailyNewsSummary:
-//    - Se dispara: todos los días a una hora específica (cron)
+// 2. scheduleDailyDigests / sendUserDigest:
+//    - Se dispara: cada hora (cron), entregando a la hora local elegida por cada usuario
 //    - Propósito: mantener usuarios comprometidos con insights diarios
 //    - Beneficio: análisis IA del mercado enviado automáticamente
 //
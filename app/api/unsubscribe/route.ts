@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { unsubscribeWithToken } from "@/lib/actions/notification.actions";
+
+// Target of the List-Unsubscribe header. Mail clients POST here when the user clicks
+// their built-in unsubscribe button (RFC 8058), so there is no page to show.
+export async function POST(request: NextRequest) {
+    const result = await unsubscribeWithToken(request.nextUrl.searchParams.get('token') ?? '');
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+}
+
+// Clients that only support GET get the confirmation page; link scanners that prefetch
+// URLs in emails must not be able to unsubscribe anyone
+export async function GET(request: NextRequest) {
+    const url = new URL('/unsubscribe', request.nextUrl.origin);
+    url.search = request.nextUrl.search;
+    return NextResponse.redirect(url);
+}
@@ -0,0 +1,80 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getCapturedEmail, listCapturedEmails } from "@/lib/nodemailer/file-drop";
+import { getMailDropDirectory, getMailTransportKind } from "@/lib/nodemailer/transport";
+import { getFormattedTimestamp } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+// Development-only inbox for the file-drop transport (MAIL_TRANSPORT=file)
+export default async function DevEmailsPage({ searchParams }: DevEmailsPageProps) {
+    if (process.env.NODE_ENV === 'production') notFound();
+
+    const { id } = await searchParams;
+    const directory = getMailDropDirectory();
+    const emails = await listCapturedEmails(directory);
+    const selected = id ? await getCapturedEmail(directory, id) : emails[0] ?? null;
+    const kind = getMailTransportKind();
+
+    return (
+        <main className="min-h-screen p-6 space-y-6">
+            <div>
+                <h1 className="form-title">Captured Emails</h1>
+                <p className="settings-description">
+                    {kind === 'file'
+                        ? `Messages written to ${directory}.`
+                        : `Mail is going through the ${kind} transport. Set MAIL_TRANSPORT=file to capture messages here.`}
+                </p>
+            </div>
+
+            {emails.length === 0 ? (
+                <p className="settings-description">No emails captured yet.</p>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6">
+                    <ul className="dev-email-list">
+                        {emails.map((email) => (
+                            <li key={email.id}>
+                                <Link
+                                    href={`/dev/emails?id=${email.id}`}
+                                    className={`dev-email-row ${email.id === selected?.id ? 'dev-email-row-active' : ''}`}
+                                >
+                                    <div className="security-row-title truncate">{email.subject || '(no subject)'}</div>
+                                    <div className="security-row-meta truncate">
+                                        {email.to.join(', ')} · {getFormattedTimestamp(new Date(email.sentAt))}
+                                    </div>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {selected ? (
+                        <section className="space-y-4 min-w-0">
+                            <div className="dev-email-header">
+                                <h2 className="settings-heading">{selected.subject || '(no subject)'}</h2>
+                                <p className="security-row-meta">From: {selected.from}</p>
+                                <p className="security-row-meta">To: {selected.to.join(', ')}</p>
+                                <p className="security-row-meta">File: {selected.id}.eml</p>
+                            </div>
+
+                            {selected.html ? (
+                                // Sandboxed so template scripts and links can't act on this page
+                                <iframe title={selected.subject} srcDoc={selected.html} sandbox="" className="dev-email-frame" />
+                            ) : (
+                                <pre className="settings-section whitespace-pre-wrap text-sm text-gray-100">{selected.text}</pre>
+                            )}
+
+                            {selected.html && selected.text && (
+                                <details className="settings-section">
+                                    <summary className="settings-heading cursor-pointer">Plain-text version</summary>
+                                    <pre className="whitespace-pre-wrap text-sm text-gray-100">{selected.text}</pre>
+                                </details>
+                            )}
+                        </section>
+                    ) : (
+                        <p className="settings-description">That email no longer exists.</p>
+                    )}
+                </div>
+            )}
+        </main>
+    )
+}
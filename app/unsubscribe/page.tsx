@@ -0,0 +1,33 @@
+import Link from "next/link";
+import Image from "next/image";
+import UnsubscribeConfirm from "@/components/UnsubscribeConfirm";
+import { verifyUnsubscribeToken } from "@/lib/notifications/unsubscribe";
+import { EMAIL_CATEGORY_OPTIONS } from "@/lib/constants";
+
+// Public like /verify-email: the signed token stands in for a session
+export default async function UnsubscribePage({ searchParams }: AuthTokenPageProps) {
+    const { token = '' } = await searchParams;
+    const target = verifyUnsubscribeToken(token);
+    const category = EMAIL_CATEGORY_OPTIONS.find((option) => option.value === target?.category);
+
+    return (
+        <main className="min-h-screen flex items-center justify-center p-6">
+            <section className="w-full max-w-md space-y-6">
+                <Image src="/assets/icons/logo.svg" alt="Signalist logo" width={140} height={32} className="h-8 w-auto" />
+                {category ? (
+                    <UnsubscribeConfirm token={token} label={category.label} />
+                ) : (
+                    <>
+                        <h1 className="form-title">Link not valid</h1>
+                        <p className="auth-message">
+                            This unsubscribe link is invalid. You can manage every email from your notification settings.
+                        </p>
+                        <Link href="/settings/notifications" className="yellow-btn w-full inline-flex items-center justify-center">
+                            Notification Settings
+                        </Link>
+                    </>
+                )}
+            </section>
+        </main>
+    )
+}
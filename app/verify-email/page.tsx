@@ -0,0 +1,18 @@
+import Image from "next/image";
+import VerifyEmailConfirm from "@/components/VerifyEmailConfirm";
+
+// Lives outside (auth) so the link also works for users who are already signed in,
+// which is the usual case when verification isn't required. The token is only spent
+// when the user presses the button, so link scanners that open the URL can't use it up.
+export default async function VerifyEmailPage({ searchParams }: AuthTokenPageProps) {
+    const { token = '' } = await searchParams;
+
+    return (
+        <main className="min-h-screen flex items-center justify-center p-6">
+            <section className="w-full max-w-md space-y-6">
+                <Image src="/assets/icons/logo.svg" alt="Signalist logo" width={140} height={32} className="h-8 w-auto" />
+                <VerifyEmailConfirm token={token} />
+            </section>
+        </main>
+    )
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Monitor } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { signOut } from "@/lib/actions/auth.actions";
+import { revokeOtherSessions, revokeSession } from "@/lib/actions/security.actions";
+import { getFormattedTimestamp } from "@/lib/utils";
+
+const ActiveSessionsList = ({ sessions }: ActiveSessionsListProps) => {
+  const router = useRouter();
+  // Session id being revoked, or "others" while signing out everywhere else
+  const [pending, setPending] = useState<string | null>(null);
+  const hasOthers = sessions.some((session) => !session.current);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setPending(session.id);
+
+    if (session.current) {
+      await signOut();
+      router.push("/sign-in");
+      return;
+    }
+
+    const result = await revokeSession(session.id);
+    setPending(null);
+
+    if (!result.success) {
+      toast.error("Failed to sign out device", { description: result.error });
+      return;
+    }
+
+    toast.success(`Signed out ${session.device}`);
+    router.refresh();
+  };
+
+  const handleRevokeOthers = async () => {
+    setPending("others");
+    const result = await revokeOtherSessions();
+    setPending(null);
+
+    if (!result.success) {
+      toast.error("Failed to sign out other devices", { description: result.error });
+      return;
+    }
+
+    toast.success("Signed out everywhere else");
+    router.refresh();
+  };
+
+  return (
+    <div className="settings-section">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="settings-heading">Active Sessions</h3>
+          <p className="settings-description">Devices currently signed in to your account.</p>
+        </div>
+        {hasOthers && (
+          <Button type="button" variant="outline" disabled={pending !== null} onClick={handleRevokeOthers}>
+            {pending === "others" ? "Signing Out" : "Sign Out Everywhere Else"}
+          </Button>
+        )}
+      </div>
+
+      <ul className="security-list">
+        {sessions.map((session) => (
+          <li key={session.id} className="security-row">
+            <Monitor className="h-5 w-5 shrink-0 text-gray-500" />
+            <div className="flex-1 min-w-0">
+              <div className="security-row-title">
+                {session.device}
+                {session.current && <span className="security-badge">This device</span>}
+              </div>
+              <div className="security-row-meta">
+                {session.ipAddress ?? "Unknown IP"} · Signed in {getFormattedTimestamp(new Date(session.createdAt))} · Session refreshed{" "}
+                {getFormattedTimestamp(new Date(session.lastSeenAt))}
+              </div>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={pending !== null}
+              onClick={() => handleRevoke(session)}
+              className="text-gray-400 hover:text-red-500"
+            >
+              {pending === session.id ? "Signing Out" : "Sign Out"}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ActiveSessionsList;
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import InputField from "@/components/forms/InputField";
+import SelectField from "@/components/forms/SelectField";
+import { ALERT_TYPE_OPTIONS, VOLUME_ALERT_AVERAGE_DAYS } from "@/lib/constants";
+import { createAlert, updateAlert } from "@/lib/actions/alert.actions";
+
+const emptyAlert: AlertData = {
+  symbol: "",
+  company: "",
+  alertName: "",
+  alertType: "upper",
+  threshold: "",
+  averageDays: String(VOLUME_ALERT_AVERAGE_DAYS),
+};
+
+const AlertModal = ({ alertId, alertData, action = "create", open, setOpen }: AlertModalProps) => {
+  const router = useRouter();
+  const isEditing = action === "update" && !!alertId;
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    watch,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<AlertData>({
+    defaultValues: { ...emptyAlert, ...alertData },
+    mode: "onBlur",
+  });
+
+  const isVolumeAlert = watch("alertType") === "volume";
+  const wasVolumeAlert = useRef(isVolumeAlert);
+
+  // The modal is reused across rows, so reload the form whenever it opens for a new stock
+  useEffect(() => {
+    if (!open) return;
+    wasVolumeAlert.current = alertData?.alertType === "volume";
+    reset({ ...emptyAlert, ...alertData });
+  }, [open, alertData, reset]);
+
+  // A price and a volume multiplier aren't interchangeable, so switching kinds clears the threshold
+  useEffect(() => {
+    if (wasVolumeAlert.current === isVolumeAlert) return;
+    wasVolumeAlert.current = isVolumeAlert;
+    setValue("threshold", "");
+  }, [isVolumeAlert, setValue]);
+
+  const onSubmit = async (data: AlertData) => {
+    const payload: AlertData = {
+      ...data,
+      symbol: alertData?.symbol ?? data.symbol,
+      company: alertData?.company ?? data.company,
+    };
+
+    const result = isEditing ? await updateAlert(alertId!, payload) : await createAlert(payload);
+
+    if (!result.success) {
+      toast.error(isEditing ? "Failed to update alert" : "Failed to create alert", {
+        description: result.error,
+      });
+      return;
+    }
+
+    toast.success(isEditing ? "Alert updated" : "Alert created", {
+      description: `${payload.alertName} on ${payload.symbol}`,
+    });
+    setOpen(false);
+    router.refresh();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="alert-dialog">
+        <DialogHeader>
+          <DialogTitle className="alert-title">{isEditing ? "Edit Price Alert" : "Create Price Alert"}</DialogTitle>
+          <DialogDescription className="text-gray-500">
+            {alertData?.company} ({alertData?.symbol})
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <InputField
+            name="alertName"
+            label="Alert Name"
+            placeholder="e.g. Take profit"
+            register={register}
+            error={errors.alertName}
+            validation={{ required: "Alert name is required" }}
+          />
+
+          <SelectField
+            name="alertType"
+            label="Alert Type"
+            placeholder="Select alert type"
+            options={ALERT_TYPE_OPTIONS}
+            control={control}
+            error={errors.alertType}
+            required
+          />
+
+          {isVolumeAlert ? (
+            <>
+              <InputField
+                key="volume-threshold"
+                name="threshold"
+                label="Volume Multiplier (x average)"
+                placeholder="e.g. 2.5"
+                type="number"
+                register={register}
+                error={errors.threshold}
+                validation={{
+                  required: "Multiplier is required",
+                  validate: (value: string) => Number(value) > 1 || "Multiplier must be greater than 1",
+                }}
+              />
+              <InputField
+                name="averageDays"
+                label="Average Period (days)"
+                placeholder={String(VOLUME_ALERT_AVERAGE_DAYS)}
+                type="number"
+                register={register}
+                error={errors.averageDays}
+                validation={{
+                  required: "Average period is required",
+                  validate: (value: string) =>
+                    (Number.isInteger(Number(value)) && Number(value) >= 2 && Number(value) <= 90) ||
+                    "Use a whole number of days between 2 and 90",
+                }}
+              />
+            </>
+          ) : (
+            <InputField
+              key="price-threshold"
+              name="threshold"
+              label="Threshold Price (USD)"
+              placeholder="e.g. 150.00"
+              type="number"
+              register={register}
+              error={errors.threshold}
+              validation={{
+                required: "Threshold is required",
+                validate: (value: string) => Number(value) > 0 || "Threshold must be a positive price",
+              }}
+            />
+          )}
+
+          <Button type="submit" disabled={isSubmitting} className="yellow-btn w-full">
+            {isSubmitting ? "Saving" : isEditing ? "Update Alert" : "Create Alert"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlertModal;
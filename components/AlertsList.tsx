@@ -0,0 +1,113 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import AlertModal from "@/components/AlertModal";
+import { deleteAlert } from "@/lib/actions/alert.actions";
+import { VOLUME_ALERT_AVERAGE_DAYS } from "@/lib/constants";
+import { cn, formatChangePercent, formatPrice, getAlertText, getChangeColorClass } from "@/lib/utils";
+
+const AlertsList = ({ alertData }: AlertsListProps) => {
+  const router = useRouter();
+  const [editing, setEditing] = useState<Alert | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const editingData = useMemo<AlertData | undefined>(
+    () =>
+      editing
+        ? {
+            symbol: editing.symbol,
+            company: editing.company,
+            alertName: editing.alertName,
+            alertType: editing.alertType,
+            threshold: String(editing.threshold),
+            averageDays: String(editing.averageDays ?? VOLUME_ALERT_AVERAGE_DAYS),
+          }
+        : undefined,
+    [editing]
+  );
+
+  const handleDelete = async (alert: Alert) => {
+    setDeletingId(alert.id);
+    const result = await deleteAlert(alert.id);
+    setDeletingId(null);
+
+    if (!result.success) {
+      toast.error("Failed to delete alert", { description: result.error });
+      return;
+    }
+
+    toast.success("Alert deleted", { description: `${alert.alertName} on ${alert.symbol}` });
+    router.refresh();
+  };
+
+  return (
+    <>
+      <div className="alert-list">
+        {!alertData || alertData.length === 0 ? (
+          <p className="alert-empty">
+            No alerts yet. Use &quot;Add Alert&quot; on a watchlist row to get notified when a price crosses your target.
+          </p>
+        ) : (
+          alertData.map((alert) => (
+            <div key={alert.id} className="alert-item">
+              <p className="alert-name">{alert.alertName}</p>
+              <div className="alert-details">
+                <div>
+                  <p className="alert-company">{alert.company}</p>
+                  <p className="alert-price">{alert.currentPrice ? formatPrice(alert.currentPrice) : "—"}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-gray-100 font-semibold">{alert.symbol}</p>
+                  <p className={cn("text-sm", getChangeColorClass(alert.changePercent))}>
+                    {formatChangePercent(alert.changePercent)}
+                  </p>
+                </div>
+              </div>
+              <div className="alert-actions">
+                <div>
+                  <p className="text-sm text-gray-500">Alert:</p>
+                  <p className="text-gray-100 font-semibold">{getAlertText(alert)}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="icon"
+                    className="alert-update-btn"
+                    aria-label={`Edit ${alert.alertName}`}
+                    onClick={() => setEditing(alert)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    className="alert-delete-btn"
+                    aria-label={`Delete ${alert.alertName}`}
+                    disabled={deletingId === alert.id}
+                    onClick={() => handleDelete(alert)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <AlertModal
+        alertId={editing?.id}
+        alertData={editingData}
+        action="update"
+        open={!!editing}
+        setOpen={(open) => {
+          if (!open) setEditing(null);
+        }}
+      />
+    </>
+  );
+};
+
+export default AlertsList;
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EMAIL_LOG_STATUS_OPTIONS } from "@/lib/constants";
+
+// Radix Select can't hold an empty value, so "any" stands for no filter
+const ANY = "any";
+
+const EmailLogFilters = ({ query, status }: EmailLogFiltersProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [term, setTerm] = useState(query);
+
+  const navigate = (next: { q?: string; status?: string }) => {
+    const params = new URLSearchParams();
+    const values = { q: term, status, ...next };
+    if (values.q?.trim()) params.set("q", values.q.trim());
+    if (values.status && values.status !== ANY) params.set("status", values.status);
+    router.push(params.size ? `${pathname}?${params.toString()}` : pathname);
+  };
+
+  return (
+    <div className="search-page-filters">
+      <form
+        className="flex flex-1 gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          navigate({ q: term });
+        }}
+      >
+        <Input
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="Search by recipient, subject or template"
+          className="form-input"
+          aria-label="Search the email log"
+        />
+        <Button type="submit" className="yellow-btn h-12 w-12 shrink-0" aria-label="Search">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <Select value={status || ANY} onValueChange={(value) => navigate({ status: value })}>
+        <SelectTrigger className="select-trigger sm:w-44">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-800 border-gray-600 text-white">
+          <SelectItem value={ANY} className="focus:bg-gray-600 focus:text-white">All statuses</SelectItem>
+          {EMAIL_LOG_STATUS_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="focus:bg-gray-600 focus:text-white">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default EmailLogFilters;
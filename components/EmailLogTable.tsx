@@ -0,0 +1,39 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn, getFormattedTimestamp } from "@/lib/utils";
+
+const EMAIL_LOG_TABLE_HEADER = ["Sent", "Recipient", "Template", "Subject", "Status", "Attempts", "Error"];
+
+const STATUS_CLASSES = {
+  sent: "text-green-500",
+  retrying: "text-yellow-500",
+  failed: "text-red-500",
+} satisfies Record<EmailLogStatus, string>;
+
+const EmailLogTable = ({ entries }: EmailLogTableProps) => (
+  <Table className="watchlist-table">
+    <TableHeader>
+      <TableRow className="table-header-row">
+        {EMAIL_LOG_TABLE_HEADER.map((header) => (
+          <TableHead key={header} className="table-header">{header}</TableHead>
+        ))}
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {entries.map((entry) => (
+        <TableRow key={entry.id} className="table-row cursor-default">
+          <TableCell className="table-cell pl-4 whitespace-nowrap">{getFormattedTimestamp(new Date(entry.createdAt))}</TableCell>
+          <TableCell className="table-cell">{entry.to}</TableCell>
+          <TableCell className="table-cell text-gray-400">{entry.template.replace(/_/g, " ")}</TableCell>
+          <TableCell className="table-cell max-w-xs truncate" title={entry.subject}>{entry.subject}</TableCell>
+          <TableCell className={cn("table-cell capitalize", STATUS_CLASSES[entry.status])}>{entry.status}</TableCell>
+          <TableCell className="table-cell">{entry.attempts}</TableCell>
+          <TableCell className="table-cell max-w-xs truncate text-sm text-gray-500" title={entry.error ?? undefined}>
+            {entry.error ?? "—"}
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+export default EmailLogTable;
@@ -0,0 +1,40 @@
+import { formatPrice } from "@/lib/utils";
+
+const WIDTH = 800;
+const HEIGHT = 240;
+const PADDING = 8;
+
+const EquityCurve = ({ points }: EquityCurveProps) => {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">Close a trade to start your equity curve.</p>;
+  }
+
+  // The curve starts from flat equity so the first trade is drawn as a move away from zero
+  const values = [0, ...points.map((point) => point.equity)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const toX = (index: number) => PADDING + (index / (values.length - 1)) * (WIDTH - PADDING * 2);
+  const toY = (value: number) => PADDING + ((max - value) / range) * (HEIGHT - PADDING * 2);
+  const path = values.map((value, index) => `${toX(index).toFixed(1)},${toY(value).toFixed(1)}`).join(" ");
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="equity-curve" role="img">
+        <title>Equity curve</title>
+        <line x1={0} x2={WIDTH} y1={toY(0)} y2={toY(0)} className="stroke-gray-600" strokeDasharray="4 4" />
+        <polyline points={path} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{new Date(points[0].date).toLocaleDateString("en-US")}</span>
+        <span>
+          Low {formatPrice(min)} · High {formatPrice(max)}
+        </span>
+        <span>{new Date(points[points.length - 1].date).toLocaleDateString("en-US")}</span>
+      </div>
+    </div>
+  );
+};
+
+export default EquityCurve;
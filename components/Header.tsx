@@ -2,10 +2,11 @@ import Link from "next/link";
 import Image from "next/image";
 import NavItems from "@/components/NavItems";
 import UserDropdown from "@/components/UserDropdown";
-import {searchStocks} from "@/lib/actions/finnhub.actions";
+import {searchStocksWithWatchlistStatus} from "@/lib/actions/watchlist.actions";
+import {isAdminUser} from "@/lib/security/admin";
 
-const Header = async ({ user }: { user: User }) => {
-    const initialStocks = await searchStocks();
+const Header = async ({ user, emailVerified }: { user: User, emailVerified: boolean }) => {
+    const initialStocks = await searchStocksWithWatchlistStatus();
 
     return (
         <header className="sticky top-0 header">
@@ -17,7 +18,7 @@ const Header = async ({ user }: { user: User }) => {
                     <NavItems initialStocks={initialStocks} />
                 </nav>
 
-                <UserDropdown user={user} initialStocks={initialStocks} />
+                <UserDropdown user={user} initialStocks={initialStocks} isAdmin={isAdminUser({ email: user.email, emailVerified })} />
             </div>
         </header>
     )
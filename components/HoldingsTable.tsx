@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PORTFOLIO_TABLE_HEADER } from "@/lib/constants";
+import { cn, formatChangePercent, formatPrice, getChangeColorClass } from "@/lib/utils";
+
+const formatShares = (quantity: number) => quantity.toLocaleString("en-US", { maximumFractionDigits: 4 });
+
+const HoldingsTable = ({ holdings }: HoldingsTableProps) => {
+  return (
+    <Table className="watchlist-table">
+      <TableHeader>
+        <TableRow className="table-header-row">
+          {PORTFOLIO_TABLE_HEADER.map((header) => (
+            <TableHead key={header} className="table-header">{header}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {holdings.map((holding) => (
+          <TableRow key={holding.symbol} className={cn("table-row", holding.quantity === 0 && "opacity-60")}>
+            <TableCell className="table-cell pl-4">
+              <Link href={`/stocks/${holding.symbol}`} className="hover:text-yellow-500">
+                {holding.symbol}
+              </Link>
+            </TableCell>
+            <TableCell className="table-cell">{holding.quantity ? formatShares(holding.quantity) : "Closed"}</TableCell>
+            <TableCell className="table-cell">{holding.quantity ? formatPrice(holding.averageCost) : "—"}</TableCell>
+            <TableCell className="table-cell">
+              {holding.currentPrice !== undefined ? (
+                <span className="flex flex-col">
+                  {formatPrice(holding.currentPrice)}
+                  <span className={cn("text-xs", getChangeColorClass(holding.changePercent))}>
+                    {formatChangePercent(holding.changePercent)}
+                  </span>
+                </span>
+              ) : (
+                "—"
+              )}
+            </TableCell>
+            <TableCell className="table-cell">
+              {holding.marketValue !== undefined ? formatPrice(holding.marketValue) : "—"}
+            </TableCell>
+            <TableCell className={cn("table-cell", getChangeColorClass(holding.unrealizedPnl))}>
+              {holding.unrealizedPnl !== undefined ? formatPrice(holding.unrealizedPnl) : "—"}
+            </TableCell>
+            <TableCell className={cn("table-cell", getChangeColorClass(holding.realizedPnl))}>
+              {formatPrice(holding.realizedPnl)}
+            </TableCell>
+            <TableCell className="table-cell">{formatPrice(holding.dividends)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default HoldingsTable;
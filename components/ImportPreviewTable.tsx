@@ -0,0 +1,52 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: "Ready",
+  error: "Error",
+  duplicate: "Duplicate",
+};
+
+const STATUS_CLASSES: Record<ImportRowStatus, string> = {
+  valid: "text-green-500",
+  error: "text-red-500",
+  duplicate: "text-yellow-500",
+};
+
+const ImportPreviewTable = ({ preview }: ImportPreviewTableProps) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span className="text-green-500">{preview.validCount} ready</span>
+        <span className="text-yellow-500">{preview.duplicateCount} already imported</span>
+        <span className="text-red-500">{preview.errorCount} with errors</span>
+      </div>
+
+      <div className="max-h-[480px] overflow-y-auto">
+        <Table className="watchlist-table">
+          <TableHeader>
+            <TableRow className="table-header-row">
+              <TableHead className="table-header">Line</TableHead>
+              <TableHead className="table-header">Status</TableHead>
+              <TableHead className="table-header">Row</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.rows.map((row) => (
+              <TableRow key={row.line} className="table-row">
+                <TableCell className="table-cell pl-4">{row.line}</TableCell>
+                <TableCell className={cn("table-cell", STATUS_CLASSES[row.status])}>{STATUS_LABELS[row.status]}</TableCell>
+                <TableCell className="table-cell">
+                  <span className="block max-w-xl truncate">{row.summary}</span>
+                  {row.error && <span className="text-xs text-red-500">{row.error}</span>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewTable;
@@ -0,0 +1,284 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import InputField from "@/components/forms/InputField";
+import SelectField from "@/components/forms/SelectField";
+import ImportPreviewTable from "@/components/ImportPreviewTable";
+import { IMPORT_TARGET_OPTIONS, MAX_IMPORT_FILE_MB, MAX_IMPORT_ROWS } from "@/lib/constants";
+import { parseCsv } from "@/lib/import/csv";
+import { BROKER_PRESETS, IMPORT_FIELDS, guessColumns } from "@/lib/import/presets";
+import { commitImport, previewImport, saveImportMapping } from "@/lib/actions/import.actions";
+
+// Radix Select can't hold an empty value, so unmapped fields use a sentinel
+const UNMAPPED = "__none__";
+
+type Step = "upload" | "map" | "preview";
+
+type WizardForm = {
+  target: ImportTarget;
+  preset: string;
+  mappingName: string;
+  columns: Record<string, string>;
+};
+
+const ImportWizard = ({ savedMappings, defaultTarget }: ImportWizardProps) => {
+  const router = useRouter();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const { register, control, watch, setValue, getValues, handleSubmit, formState: { errors } } = useForm<WizardForm>({
+    defaultValues: { target: defaultTarget, preset: "generic", mappingName: "", columns: {} },
+  });
+
+  const target = watch("target");
+  const fields = IMPORT_FIELDS[target];
+
+  const presetOptions = useMemo(
+    () => [
+      { value: "generic", label: "Generic (match by header)" },
+      ...BROKER_PRESETS.filter((preset) => preset.target === target).map((preset) => ({ value: preset.id, label: preset.label })),
+      ...savedMappings
+        .filter((mapping) => mapping.target === target)
+        .map((mapping) => ({ value: `saved:${mapping.id}`, label: `Saved: ${mapping.name}` })),
+    ],
+    [savedMappings, target]
+  );
+
+  const headerOptions = useMemo(
+    () => [{ value: UNMAPPED, label: "— Not mapped —" }, ...headers.map((header) => ({ value: header, label: header }))],
+    [headers]
+  );
+
+  const getMappedColumns = (): ImportColumnMapping =>
+    Object.fromEntries(Object.entries(getValues("columns")).filter(([, header]) => header && header !== UNMAPPED));
+
+  const applyMapping = (columns: ImportColumnMapping) => {
+    for (const field of IMPORT_FIELDS[getValues("target")]) {
+      const header = columns[field.key];
+      setValue(`columns.${field.key}`, header && headers.includes(header) ? header : UNMAPPED);
+    }
+  };
+
+  const applyPreset = (presetId: string) => {
+    const currentTarget = getValues("target");
+    if (presetId.startsWith("saved:")) {
+      const saved = savedMappings.find((mapping) => `saved:${mapping.id}` === presetId);
+      if (saved) {
+        applyMapping(saved.columns);
+        setValue("mappingName", saved.name);
+      }
+      return;
+    }
+
+    const preset = BROKER_PRESETS.find((candidate) => candidate.id === presetId);
+    applyMapping(preset ? preset.columns : guessColumns(currentTarget, headers));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_IMPORT_FILE_MB * 1024 * 1024) {
+      toast.error(`Import files are limited to ${MAX_IMPORT_FILE_MB} MB`);
+      return;
+    }
+
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast.error("That file has no data rows");
+      return;
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      toast.error(`Imports are limited to ${MAX_IMPORT_ROWS} rows per file`);
+      return;
+    }
+
+    const trimmedHeaders = headerRow.map((header) => header.trim());
+    setFileName(file.name);
+    setHeaders(trimmedHeaders);
+    setRows(dataRows);
+    setPreview(null);
+
+    // Headers aren't in state yet, so guess against the fresh list directly
+    const guessed = guessColumns(getValues("target"), trimmedHeaders);
+    for (const field of IMPORT_FIELDS[getValues("target")]) {
+      setValue(`columns.${field.key}`, guessed[field.key] ?? UNMAPPED);
+    }
+    setValue("preset", "generic");
+    setStep("map");
+  };
+
+  const buildRequest = (): ImportRequest => ({ target: getValues("target"), headers, rows, columns: getMappedColumns() });
+
+  const onPreview = async () => {
+    setIsBusy(true);
+    const result = await previewImport(buildRequest());
+    setIsBusy(false);
+
+    if (!result.success || !result.preview) {
+      toast.error("Could not preview import", { description: result.error });
+      return;
+    }
+
+    setPreview(result.preview);
+    setStep("preview");
+  };
+
+  const onSaveMapping = async () => {
+    const name = getValues("mappingName");
+    if (!name?.trim()) {
+      toast.error("Give the mapping a name, e.g. the account it's for");
+      return;
+    }
+
+    const result = await saveImportMapping({ name, target: getValues("target"), columns: getMappedColumns() });
+    if (!result.success) {
+      toast.error("Failed to save mapping", { description: result.error });
+      return;
+    }
+
+    toast.success("Mapping saved", { description: name });
+    router.refresh();
+  };
+
+  const onImport = async () => {
+    setIsBusy(true);
+    const result = await commitImport(buildRequest());
+    setIsBusy(false);
+
+    if (!result.success) {
+      toast.error("Import failed", { description: result.error });
+      return;
+    }
+
+    toast.success(`Imported ${result.imported} rows`, {
+      description: result.skipped ? `${result.skipped} duplicates or invalid rows skipped` : undefined,
+    });
+    router.push(target === "journal" ? "/journal" : "/portfolio");
+  };
+
+  return (
+    <div className="space-y-6">
+      {step === "upload" && (
+        <section className="journal-form-section">
+          <h3 className="journal-form-heading">1. Choose a file</h3>
+          <SelectField
+            name="target"
+            label="Import into"
+            placeholder="Select destination"
+            options={IMPORT_TARGET_OPTIONS}
+            control={control}
+            error={errors.target}
+            required
+          />
+          <div className="space-y-2">
+            <Label htmlFor="import-file" className="form-label">CSV export</Label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              className="form-input w-full cursor-pointer file:mr-4 file:text-gray-400"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        </section>
+      )}
+
+      {step === "map" && (
+        <form onSubmit={handleSubmit(onPreview)} className="space-y-6">
+          <section className="journal-form-section">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="journal-form-heading">2. Map columns</h3>
+              <span className="text-sm text-gray-500">
+                {fileName} · {rows.length} rows
+              </span>
+            </div>
+
+            <div className="max-w-md">
+              <SelectField
+                name="preset"
+                label="Layout"
+                placeholder="Select a layout"
+                options={presetOptions}
+                control={control}
+                error={errors.preset}
+              />
+              <Button type="button" variant="link" className="px-0 text-yellow-500" onClick={() => applyPreset(getValues("preset"))}>
+                Apply layout
+              </Button>
+            </div>
+
+            <div className="journal-form-grid">
+              {fields.map((field) => (
+                <SelectField
+                  key={field.key}
+                  name={`columns.${field.key}`}
+                  label={field.required ? `${field.label} *` : field.label}
+                  placeholder="Select a column"
+                  options={headerOptions}
+                  control={control}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section className="journal-form-section">
+            <h3 className="journal-form-heading">Save this mapping</h3>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="flex-1">
+                <InputField
+                  name="mappingName"
+                  label="Account name"
+                  placeholder="e.g. Schwab IRA"
+                  register={register}
+                  error={errors.mappingName}
+                />
+              </div>
+              <Button type="button" variant="outline" className="h-12" onClick={onSaveMapping}>
+                Save Mapping
+              </Button>
+            </div>
+          </section>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Button type="submit" disabled={isBusy} className="yellow-btn sm:w-60">
+              {isBusy ? "Checking" : "Preview Import"}
+            </Button>
+            <Button type="button" variant="ghost" className="h-12" onClick={() => setStep("upload")}>
+              Choose another file
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {step === "preview" && preview && (
+        <section className="journal-form-section">
+          <h3 className="journal-form-heading">3. Review</h3>
+          <ImportPreviewTable preview={preview} />
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Button
+              type="button"
+              disabled={isBusy || preview.validCount === 0}
+              className="yellow-btn sm:w-60"
+              onClick={onImport}
+            >
+              {isBusy ? "Importing" : `Import ${preview.validCount} rows`}
+            </Button>
+            <Button type="button" variant="ghost" className="h-12" onClick={() => setStep("map")}>
+              Back to mapping
+            </Button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ImportWizard;
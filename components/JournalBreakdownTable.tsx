@@ -0,0 +1,41 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn, formatChangePercent, formatPrice, getChangeColorClass } from "@/lib/utils";
+
+const BREAKDOWN_HEADER = ["Trades", "Win Rate", "P&L", "Avg Return"];
+
+const JournalBreakdownTable = ({ title, labelHeader, rows }: JournalBreakdownTableProps) => {
+  return (
+    <div className="journal-stats-panel">
+      <h3 className="journal-form-heading">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No closed trades yet.</p>
+      ) : (
+        <Table className="watchlist-table">
+          <TableHeader>
+            <TableRow className="table-header-row">
+              <TableHead className="table-header">{labelHeader}</TableHead>
+              {BREAKDOWN_HEADER.map((header) => (
+                <TableHead key={header} className="table-header">{header}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.label} className="table-row">
+                <TableCell className="table-cell pl-4">{row.label}</TableCell>
+                <TableCell className="table-cell">{row.trades}</TableCell>
+                <TableCell className="table-cell">{row.winRate.toFixed(0)}%</TableCell>
+                <TableCell className={cn("table-cell", getChangeColorClass(row.pnl))}>{formatPrice(row.pnl)}</TableCell>
+                <TableCell className={cn("table-cell", getChangeColorClass(row.averageReturnPercent))}>
+                  {formatChangePercent(row.averageReturnPercent) || "0.00%"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default JournalBreakdownTable;
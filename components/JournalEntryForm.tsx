@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import InputField from "@/components/forms/InputField";
+import SelectField from "@/components/forms/SelectField";
+import TextAreaField from "@/components/forms/TextAreaField";
+import { TRADE_SIDE_OPTIONS } from "@/lib/constants";
+import { createJournalEntry, deleteJournalEntry, updateJournalEntry } from "@/lib/actions/journal.actions";
+
+// datetime-local inputs work in the browser's timezone without an offset
+const toDateTimeLocal = (iso: string | null | undefined) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : "");
+
+const JournalEntryForm = ({ entry, defaultSymbol }: JournalEntryFormProps) => {
+  const router = useRouter();
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<JournalEntryFormData>({
+    defaultValues: {
+      symbol: entry?.symbol ?? defaultSymbol ?? "",
+      side: entry?.side ?? "long",
+      entryPrice: entry ? String(entry.entryPrice) : "",
+      exitPrice: entry?.exitPrice != null ? String(entry.exitPrice) : "",
+      stopPrice: entry?.stopPrice != null ? String(entry.stopPrice) : "",
+      entryAt: toDateTimeLocal(entry?.entryAt ?? new Date().toISOString()),
+      exitAt: toDateTimeLocal(entry?.exitAt),
+      quantity: entry ? String(entry.quantity) : "",
+      fees: entry ? String(entry.fees) : "0",
+      strategy: entry?.strategy ?? "",
+      thesis: entry?.thesis ?? "",
+      emotions: entry?.emotions ?? "",
+      lessons: entry?.lessons ?? "",
+      notes: entry?.notes ?? "",
+    },
+    mode: "onBlur",
+  });
+
+  const onSubmit = async (data: JournalEntryFormData) => {
+    const payload: JournalEntryFormData = {
+      ...data,
+      entryAt: fromDateTimeLocal(data.entryAt),
+      exitAt: fromDateTimeLocal(data.exitAt),
+    };
+
+    const result = entry ? await updateJournalEntry(entry.id, payload) : await createJournalEntry(payload);
+
+    if (!result.success) {
+      toast.error(entry ? "Failed to update entry" : "Failed to save entry", { description: result.error });
+      return;
+    }
+
+    toast.success(entry ? "Journal entry updated" : "Journal entry saved");
+    router.push("/journal");
+    router.refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!entry) return;
+
+    setIsDeleting(true);
+    const result = await deleteJournalEntry(entry.id);
+    setIsDeleting(false);
+
+    if (!result.success) {
+      toast.error("Failed to delete entry", { description: result.error });
+      return;
+    }
+
+    toast.success("Journal entry deleted");
+    router.push("/journal");
+    router.refresh();
+  };
+
+  const positiveNumber = (label: string) => ({
+    required: `${label} is required`,
+    validate: (value: string) => Number(value) > 0 || `${label} must be a positive number`,
+  });
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+      <section className="journal-form-section">
+        <h3 className="journal-form-heading">Trade</h3>
+        <div className="journal-form-grid">
+          <InputField
+            name="symbol"
+            label="Symbol"
+            placeholder="AAPL"
+            register={register}
+            error={errors.symbol}
+            validation={{ required: "Symbol is required" }}
+          />
+          <SelectField
+            name="side"
+            label="Side"
+            placeholder="Select side"
+            options={TRADE_SIDE_OPTIONS}
+            control={control}
+            error={errors.side}
+            required
+          />
+          <InputField
+            name="quantity"
+            label="Quantity"
+            placeholder="100"
+            type="number"
+            register={register}
+            error={errors.quantity}
+            validation={positiveNumber("Quantity")}
+          />
+          <InputField
+            name="fees"
+            label="Fees (USD)"
+            placeholder="0.00"
+            type="number"
+            register={register}
+            error={errors.fees}
+            validation={{ validate: (value: string) => !value || Number(value) >= 0 || "Fees cannot be negative" }}
+          />
+          <InputField
+            name="entryPrice"
+            label="Entry Price"
+            placeholder="150.00"
+            type="number"
+            register={register}
+            error={errors.entryPrice}
+            validation={positiveNumber("Entry price")}
+          />
+          <InputField
+            name="entryAt"
+            label="Entry Time"
+            placeholder=""
+            type="datetime-local"
+            register={register}
+            error={errors.entryAt}
+            validation={{ required: "Entry time is required" }}
+          />
+          <InputField
+            name="exitPrice"
+            label="Exit Price (leave empty if open)"
+            placeholder="165.00"
+            type="number"
+            register={register}
+            error={errors.exitPrice}
+          />
+          <InputField
+            name="exitAt"
+            label="Exit Time"
+            placeholder=""
+            type="datetime-local"
+            register={register}
+            error={errors.exitAt}
+          />
+          <InputField
+            name="stopPrice"
+            label="Stop Price (optional)"
+            placeholder="142.50"
+            type="number"
+            register={register}
+            error={errors.stopPrice}
+          />
+        </div>
+      </section>
+
+      <section className="journal-form-section">
+        <h3 className="journal-form-heading">Reflection</h3>
+        <InputField
+          name="strategy"
+          label="Setup / Strategy"
+          placeholder="e.g. Breakout, Earnings drift"
+          register={register}
+          error={errors.strategy}
+        />
+        <TextAreaField
+          name="thesis"
+          label="Thesis"
+          placeholder="Why did you take this trade?"
+          register={register}
+          error={errors.thesis}
+          rows={3}
+        />
+        <TextAreaField
+          name="emotions"
+          label="Emotions"
+          placeholder="How did you feel entering, managing and exiting?"
+          register={register}
+          error={errors.emotions}
+          rows={2}
+        />
+        <TextAreaField
+          name="lessons"
+          label="Lessons"
+          placeholder="What would you repeat or avoid next time?"
+          register={register}
+          error={errors.lessons}
+          rows={3}
+        />
+        <TextAreaField
+          name="notes"
+          label="Notes (Markdown)"
+          placeholder="Charts, links, checklists..."
+          register={register}
+          error={errors.notes}
+          rows={8}
+        />
+      </section>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Button type="submit" disabled={isSubmitting} className="yellow-btn sm:w-60">
+          {isSubmitting ? "Saving" : entry ? "Update Entry" : "Save Entry"}
+        </Button>
+        {entry && (
+          <Button
+            type="button"
+            variant="destructive"
+            disabled={isDeleting}
+            onClick={handleDelete}
+            className="h-12 sm:w-40 cursor-pointer"
+          >
+            {isDeleting ? "Deleting" : "Delete"}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default JournalEntryForm;
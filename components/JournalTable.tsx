@@ -0,0 +1,54 @@
+import Link from "next/link";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn, formatPrice, getChangeColorClass } from "@/lib/utils";
+
+const JOURNAL_TABLE_HEADER = ["Date", "Symbol", "Side", "Qty", "Entry", "Exit", "P&L", "Strategy"];
+
+const formatEntryDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+const JournalTable = ({ entries }: JournalTableProps) => {
+  return (
+    <Table className="watchlist-table">
+      <TableHeader>
+        <TableRow className="table-header-row">
+          {JOURNAL_TABLE_HEADER.map((header) => (
+            <TableHead key={header} className="table-header">{header}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id} className="table-row">
+            <TableCell className="table-cell pl-4">
+              <Link href={`/journal/${entry.id}`} className="hover:text-yellow-500">
+                {formatEntryDate(entry.entryAt)}
+              </Link>
+            </TableCell>
+            <TableCell className="table-cell">
+              <Link href={`/stocks/${entry.symbol}`} className="hover:text-yellow-500">
+                {entry.symbol}
+              </Link>
+            </TableCell>
+            <TableCell className="table-cell">
+              <span className={entry.side === "long" ? "journal-side-long" : "journal-side-short"}>{entry.side}</span>
+            </TableCell>
+            <TableCell className="table-cell">{entry.quantity}</TableCell>
+            <TableCell className="table-cell">{formatPrice(entry.entryPrice)}</TableCell>
+            <TableCell className="table-cell">{entry.exitPrice !== null ? formatPrice(entry.exitPrice) : "Open"}</TableCell>
+            <TableCell className={cn("table-cell", getChangeColorClass(entry.pnl ?? undefined))}>
+              {entry.pnl !== null ? formatPrice(entry.pnl) : "—"}
+            </TableCell>
+            <TableCell className="table-cell">
+              <Link href={`/journal/${entry.id}`} className="hover:text-yellow-500">
+                {entry.strategy || "—"}
+              </Link>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default JournalTable;
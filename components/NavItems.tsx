@@ -17,11 +17,17 @@ const NavItems = ({initialStocks}: { initialStocks: StockWithWatchlistStatus[]})
     return (
         <ul className="flex flex-col sm:flex-row p-2 gap-3 sm:gap-10 font-medium">
             {NAV_ITEMS.map(({ href, label }) => {
+                // The full page gets the link; the command palette stays one keystroke away
                 if(href === '/search') return (
-                    <li key="search-trigger">
+                    <li key="search-trigger" className="flex items-center gap-2">
+                        <Link href={href} className={`hover:text-yellow-500 transition-colors ${
+                            isActive(href) ? 'text-gray-100' : ''
+                        }`}>
+                            {label}
+                        </Link>
                         <SearchCommand
                             renderAs="text"
-                            label="Search"
+                            label="⌘K"
                             initialStocks={initialStocks}
                         />
                     </li>
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import SelectField from "@/components/forms/SelectField";
+import { EMAIL_CATEGORY_OPTIONS } from "@/lib/constants";
+import { updateCurrentNotificationPreferences } from "@/lib/actions/notification.actions";
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: new Date(Date.UTC(2000, 0, 1, hour)).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone: "UTC" }),
+}));
+
+const toFormData = ({ digestHour, ...rest }: NotificationPreferences): NotificationPreferencesFormData => ({
+  ...rest,
+  digestHour: String(digestHour),
+});
+
+const NotificationPreferencesForm = ({ preferences, saved }: NotificationPreferencesFormProps) => {
+  const router = useRouter();
+  const timezoneOptions = useMemo(
+    () => Intl.supportedValuesOf("timeZone").map((timezone) => ({ value: timezone, label: timezone.replaceAll("_", " ") })),
+    []
+  );
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    setValue,
+    formState: { errors, isSubmitting, isDirty },
+    reset,
+  } = useForm<NotificationPreferencesFormData>({
+    defaultValues: toFormData(preferences),
+    mode: "onBlur",
+  });
+
+  // Until the user saves, suggest the browser's timezone over the UTC default
+  useEffect(() => {
+    if (!saved) setValue("timezone", Intl.DateTimeFormat().resolvedOptions().timeZone, { shouldDirty: true });
+  }, [saved, setValue]);
+
+  const onSubmit = async (data: NotificationPreferencesFormData) => {
+    const result = await updateCurrentNotificationPreferences({ ...data, digestHour: Number(data.digestHour) });
+
+    if (!result.success) {
+      toast.error("Failed to update notifications", { description: result.error });
+      return;
+    }
+
+    toast.success("Notifications updated");
+    reset(data);
+    router.refresh();
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="settings-section">
+      <div>
+        <h3 className="settings-heading">Email Notifications</h3>
+        <p className="settings-description">
+          Choose which emails you get. Account emails such as verification and password resets are always sent.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {EMAIL_CATEGORY_OPTIONS.map((option) => (
+          <label key={option.value} className="settings-toggle">
+            <input type="checkbox" {...register(option.value)} />
+            <span>
+              <span className="settings-toggle-label">{option.label}</span>
+              <span className="settings-description block">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <SelectField
+        name="digestHour"
+        label="Digest Delivery Time"
+        placeholder="Select a time"
+        options={HOUR_OPTIONS}
+        control={control}
+        error={errors.digestHour}
+        required
+      />
+      <SelectField
+        name="timezone"
+        label="Timezone"
+        placeholder="Select your timezone"
+        options={timezoneOptions}
+        control={control}
+        error={errors.timezone}
+        required
+      />
+
+      <Button type="submit" disabled={isSubmitting || !isDirty} className="yellow-btn sm:w-60">
+        {isSubmitting ? "Saving" : "Save Notifications"}
+      </Button>
+    </form>
+  );
+};
+
+export default NotificationPreferencesForm;
@@ -0,0 +1,84 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import SelectField from "@/components/forms/SelectField";
+import { CountrySelectField } from "@/components/forms/CountrySelectField";
+import { DEFAULT_INVESTMENT_PROFILE, INVESTMENT_GOALS, PREFERRED_INDUSTRIES, RISK_TOLERANCE_OPTIONS } from "@/lib/constants";
+import { updateCurrentUserProfile } from "@/lib/actions/profile.actions";
+
+const ProfileForm = ({ profile }: ProfileFormProps) => {
+  const router = useRouter();
+
+  const {
+    handleSubmit,
+    control,
+    formState: { errors, isSubmitting, isDirty },
+    reset,
+  } = useForm<InvestmentProfile>({
+    defaultValues: profile ?? DEFAULT_INVESTMENT_PROFILE,
+    mode: "onBlur",
+  });
+
+  const onSubmit = async (data: InvestmentProfile) => {
+    const result = await updateCurrentUserProfile(data);
+
+    if (!result.success) {
+      toast.error("Failed to update profile", { description: result.error });
+      return;
+    }
+
+    toast.success("Profile updated");
+    reset(data);
+    router.refresh();
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="settings-section">
+      <div>
+        <h3 className="settings-heading">Investment Profile</h3>
+        <p className="settings-description">
+          Used to tailor your daily news summary and other personalized content.
+          {!profile && " You haven't saved a profile yet, so the sign-up defaults are shown."}
+        </p>
+      </div>
+
+      <CountrySelectField name="country" label="Country" control={control} error={errors.country} required />
+      <SelectField
+        name="investmentGoals"
+        label="Investment Goals"
+        placeholder="Select your investment goal"
+        options={INVESTMENT_GOALS}
+        control={control}
+        error={errors.investmentGoals}
+        required
+      />
+      <SelectField
+        name="riskTolerance"
+        label="Risk Tolerance"
+        placeholder="Select your risk level"
+        options={RISK_TOLERANCE_OPTIONS}
+        control={control}
+        error={errors.riskTolerance}
+        required
+      />
+      <SelectField
+        name="preferredIndustry"
+        label="Preferred Industry"
+        placeholder="Select your preferred industry"
+        options={PREFERRED_INDUSTRIES}
+        control={control}
+        error={errors.preferredIndustry}
+        required
+      />
+
+      <Button type="submit" disabled={isSubmitting || (!isDirty && !!profile)} className="yellow-btn sm:w-60">
+        {isSubmitting ? "Saving" : "Save Profile"}
+      </Button>
+    </form>
+  );
+};
+
+export default ProfileForm;
@@ -0,0 +1,66 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import InputField from '@/components/forms/InputField';
+import FooterLink from '@/components/forms/FooterLink';
+import { resetPassword } from '@/lib/actions/auth.actions';
+
+const ResetPasswordForm = ({ token }: { token: string }) => {
+    const router = useRouter();
+
+    const {
+        register,
+        handleSubmit,
+        getValues,
+        formState: { errors, isSubmitting },
+    } = useForm<ResetPasswordFormData>({
+        defaultValues: { token, password: '', confirmPassword: '' },
+        mode: 'onBlur',
+    });
+
+    const onSubmit = async (data: ResetPasswordFormData) => {
+        const result = await resetPassword({ token, password: data.password });
+
+        if (!result.success) {
+            toast.error('Password reset failed', { description: result.error });
+            return;
+        }
+
+        toast.success('Password updated', { description: 'Sign in with your new password.' });
+        router.push('/sign-in');
+    }
+
+    return (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+            <InputField
+                name="password"
+                label="New Password"
+                placeholder="Enter a strong password"
+                type="password"
+                register={register}
+                error={errors.password}
+                validation={{ required: 'Password is required', minLength: { value: 8, message: 'Use at least 8 characters' } }}
+            />
+            <InputField
+                name="confirmPassword"
+                label="Confirm Password"
+                placeholder="Repeat the new password"
+                type="password"
+                register={register}
+                error={errors.confirmPassword}
+                validation={{ validate: (value: string) => value === getValues('password') || 'Passwords do not match' }}
+            />
+
+            <Button type="submit" disabled={isSubmitting} className="yellow-btn w-full mt-5">
+                {isSubmitting ? 'Saving' : 'Reset Password'}
+            </Button>
+
+            <FooterLink text="Link expired?" linkText="Request a new one" href="/forgot-password" />
+        </form>
+    )
+}
+
+export default ResetPasswordForm;
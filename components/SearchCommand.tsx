@@ -1,21 +1,37 @@
 "use client"
 
 import { useEffect, useState } from "react"
-import { CommandDialog, CommandEmpty, CommandInput, CommandList } from "@/components/ui/command"
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+import { CommandDialog, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import {Button} from "@/components/ui/button";
 import {Loader2,  TrendingUp} from "lucide-react";
-import Link from "next/link";
-import {searchStocks} from "@/lib/actions/finnhub.actions";
+import WatchlistButton from "@/components/WatchlistButton";
+import SearchShortcuts from "@/components/SearchShortcuts";
+import {searchStocksWithWatchlistStatus, toggleWatchlist} from "@/lib/actions/watchlist.actions";
+import {
+  clearSearchHistory,
+  getSearchShortcuts,
+  recordSearch,
+  removeSearchHistoryEntry,
+  setSearchHistoryPinned,
+} from "@/lib/actions/searchHistory.actions";
 import { useDebounce } from "@/hooks/useDebounce"; 
 
 export default function SearchCommand({ renderAs = 'button', label = 'Add stock', initialStocks }: SearchCommandProps) {
+  const router = useRouter()
   const [open, setOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
   const [loading, setLoading] = useState(false)
   const [stocks, setStocks] = useState<StockWithWatchlistStatus[]>(initialStocks);
+  const [selected, setSelected] = useState("")
+  // Stars toggled while the dialog is open, layered over whatever status the results came with
+  const [starred, setStarred] = useState<Record<string, boolean>>({})
+  const [shortcuts, setShortcuts] = useState<SearchShortcutGroups | null>(null)
 
   const isSearchMode = !!searchTerm.trim();
   const displayStocks = isSearchMode ? stocks : stocks?.slice(0, 10);
+  const isStarred = (stock: StockWithWatchlistStatus) => starred[stock.symbol] ?? stock.isInWatchlist;
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
@@ -28,12 +44,19 @@ export default function SearchCommand({ renderAs = 'button', label = 'Add stock'
     return () => window.removeEventListener("keydown", onKeyDown)
   }, [])
 
+  // History changes on every page view, so it's fetched each time the palette opens
+  const loadShortcuts = () => getSearchShortcuts().then(setShortcuts).catch(() => setShortcuts(null));
+
+  useEffect(() => {
+    if (open) loadShortcuts();
+  }, [open]);
+
   const handleSearch = async () => {
     if(!isSearchMode) return setStocks(initialStocks);
 
     setLoading(true)
     try {
-        const results = await searchStocks(searchTerm.trim());
+        const results = await searchStocksWithWatchlistStatus(searchTerm.trim());
         setStocks(results);
     } catch {
       setStocks([])
@@ -54,6 +77,101 @@ export default function SearchCommand({ renderAs = 'button', label = 'Add stock'
     setStocks(initialStocks);
   }
 
+  // The stock page records the view itself; only the query that led there is recorded here
+  const handleOpenStock = (symbol: string) => {
+    if (isSearchMode) recordSearch(searchTerm.trim()).catch(() => undefined);
+    router.push(`/stocks/${symbol}`);
+    handleSelectStock();
+  }
+
+  const handleHistoryFailure = (message: string, error?: string) => {
+    toast.error(message, { description: error });
+    loadShortcuts();
+  }
+
+  const handleTogglePin = async (entry: SearchHistoryEntry) => {
+    const next = { ...entry, pinned: !entry.pinned };
+    setShortcuts((current) => current && {
+      ...current,
+      pinned: next.pinned ? [next, ...current.pinned] : current.pinned.filter((e) => e.id !== entry.id),
+      recent: next.pinned ? current.recent.filter((e) => e.id !== entry.id) : [next, ...current.recent],
+    });
+
+    const result = await setSearchHistoryPinned(entry.id, next.pinned);
+    if (!result.success) handleHistoryFailure(next.pinned ? "Could not pin search" : "Could not unpin search", result.error);
+  }
+
+  const handleRemoveHistory = async (entry: SearchHistoryEntry) => {
+    setShortcuts((current) => current && {
+      ...current,
+      pinned: current.pinned.filter((e) => e.id !== entry.id),
+      recent: current.recent.filter((e) => e.id !== entry.id),
+    });
+
+    const result = await removeSearchHistoryEntry(entry.id);
+    if (!result.success) handleHistoryFailure("Could not remove search", result.error);
+  }
+
+  const handleClearHistory = async () => {
+    setShortcuts((current) => current && { ...current, recent: [] });
+
+    const result = await clearSearchHistory();
+    if (!result.success) handleHistoryFailure("Could not clear recent searches", result.error);
+  }
+
+  const handleWatchlistChange = (symbol: string, isAdded: boolean) => {
+    setStarred((current) => ({ ...current, [symbol]: isAdded }));
+  }
+
+  // Cmd/Ctrl+S stars the highlighted row without leaving the keyboard
+  const toggleSelectedStar = async () => {
+    const stock = displayStocks?.find((s) => s.symbol.toLowerCase() === selected.toLowerCase());
+    if (!stock) return;
+
+    const next = !isStarred(stock);
+    handleWatchlistChange(stock.symbol, next);
+
+    const result = await toggleWatchlist(stock.symbol, stock.name, next);
+    if (result.success) {
+      toast.success(next ? `${stock.symbol} added to watchlist` : `${stock.symbol} removed from watchlist`);
+      return;
+    }
+
+    handleWatchlistChange(stock.symbol, !next);
+    toast.error(next ? "Could not add to watchlist" : "Could not remove from watchlist", {
+      description: result.error ?? `Please try again to update ${stock.symbol}.`,
+    });
+  }
+
+  // History rows are highlighted as "history:<id>"
+  const selectedHistoryEntry = () => {
+    if (!selected.startsWith("history:") || !shortcuts) return undefined;
+    const id = selected.slice("history:".length);
+    return [...shortcuts.pinned, ...shortcuts.recent].find((entry) => entry.id === id);
+  }
+
+  const handleCommandKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+
+    if (key === "s") {
+      e.preventDefault();
+      toggleSelectedStar();
+      return;
+    }
+
+    const entry = selectedHistoryEntry();
+    if (!entry) return;
+
+    if (key === "p") {
+      e.preventDefault();
+      handleTogglePin(entry);
+    } else if (key === "backspace") {
+      e.preventDefault();
+      handleRemoveHistory(entry);
+    }
+  }
+
   return (
     <>
       {renderAs === 'text' ? (
@@ -65,7 +183,12 @@ export default function SearchCommand({ renderAs = 'button', label = 'Add stock'
             {label}
           </Button>
       )}
-      <CommandDialog open={open} onOpenChange={setOpen} className="search-dialog">
+      <CommandDialog
+          open={open}
+          onOpenChange={setOpen}
+          className="search-dialog"
+          commandProps={{ shouldFilter: false, value: selected, onValueChange: setSelected, onKeyDown: handleCommandKeyDown }}
+      >
         <div className="search-field">
           <CommandInput value={searchTerm} onValueChange={setSearchTerm} placeholder="Search stocks..." className="search-input" />
           {loading && <Loader2 className="search-loader" />}
@@ -78,36 +201,69 @@ export default function SearchCommand({ renderAs = 'button', label = 'Add stock'
                 {isSearchMode ? 'No results found' : 'No stocks available'}
               </div>
             ) : (
-            <ul>
+            <>
+              {!isSearchMode && shortcuts && (
+                <SearchShortcuts
+                    shortcuts={shortcuts}
+                    onOpenStock={handleOpenStock}
+                    onRunQuery={setSearchTerm}
+                    onTogglePin={handleTogglePin}
+                    onRemove={handleRemoveHistory}
+                    onClear={handleClearHistory}
+                />
+              )}
               <div className="search-count">
                 {isSearchMode ? 'Search results' : 'Popular stocks'}
                 {` `}({displayStocks?.length || 0})
               </div>
-              {displayStocks?.map((stock, i) => (
-                  <li key={stock.symbol} className="search-item">
-                    <Link
-                        href={`/stocks/${stock.symbol}`}
-                        onClick={handleSelectStock}
-                        className="search-item-link"
-                    >
-                      <TrendingUp className="h-4 w-4 text-gray-500" />
-                      <div  className="flex-1">
-                        <div className="search-item-name">
-                          {stock.name}
-                        </div>
-                        <div className="text-sm text-gray-500">
-                          {stock.symbol} | {stock.exchange } | {stock.type}
-                        </div>
+              {displayStocks?.map((stock) => (
+                  <CommandItem
+                      key={stock.symbol}
+                      value={stock.symbol}
+                      onSelect={() => handleOpenStock(stock.symbol)}
+                      className="search-item search-item-link"
+                  >
+                    <TrendingUp className="h-4 w-4 text-gray-500" />
+                    <div  className="flex-1">
+                      <div className="search-item-name">
+                        {stock.name}
                       </div>
-                    {/*<Star />*/}
-                    </Link>
-                  </li>
+                      <div className="text-sm text-gray-500">
+                        {stock.symbol} | {stock.exchange } | {stock.type}
+                      </div>
+                    </div>
+                    {/* Starring shouldn't also navigate to the stock */}
+                    <span onClick={(e) => e.stopPropagation()}>
+                      <WatchlistButton
+                          symbol={stock.symbol}
+                          company={stock.name}
+                          isInWatchlist={isStarred(stock)}
+                          type="icon"
+                          onWatchlistChange={handleWatchlistChange}
+                      />
+                    </span>
+                  </CommandItem>
               ))}
-            </ul>
+              {isSearchMode && (
+                <CommandItem
+                    value="see-all-results"
+                    onSelect={() => {
+                      router.push(`/search?q=${encodeURIComponent(searchTerm.trim())}`);
+                      handleSelectStock();
+                    }}
+                    className="search-item search-item-link text-sm text-yellow-500"
+                >
+                  See all results for &quot;{searchTerm.trim()}&quot;
+                </CommandItem>
+              )}
+            </>
           )
           }
         </CommandList>
+        <div className="search-hint">
+          ↑↓ navigate · ↵ open · ⌘S star{!isSearchMode && shortcuts && " · ⌘P pin · ⌘⌫ remove"}
+        </div>
       </CommandDialog>
     </>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Radix Select can't hold an empty value, so "any" stands for no filter
+const ANY = "any";
+
+const SearchFilters = ({ query, exchange, type, exchanges, types }: SearchFiltersProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [term, setTerm] = useState(query);
+
+  // Every change lands in the URL so a search can be shared or bookmarked as-is
+  const navigate = (next: { q?: string; exchange?: string; type?: string }) => {
+    const params = new URLSearchParams();
+    const values = { q: term, exchange, type, ...next };
+    if (values.q?.trim()) params.set("q", values.q.trim());
+    if (values.exchange && values.exchange !== ANY) params.set("exchange", values.exchange);
+    if (values.type && values.type !== ANY) params.set("type", values.type);
+    router.push(params.size ? `${pathname}?${params.toString()}` : pathname);
+  };
+
+  return (
+    <div className="search-page-filters">
+      <form
+        className="flex flex-1 gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          // A new query resets the filters, which may not exist in the new results
+          navigate({ q: term, exchange: ANY, type: ANY });
+        }}
+      >
+        <Input
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="Search by symbol or company"
+          className="form-input"
+          aria-label="Search stocks"
+        />
+        <Button type="submit" className="yellow-btn h-12 w-12 shrink-0" aria-label="Search">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      <Select value={exchange || ANY} onValueChange={(value) => navigate({ exchange: value })} disabled={!exchanges.length}>
+        <SelectTrigger className="select-trigger sm:w-44">
+          <SelectValue placeholder="Exchange" />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-800 border-gray-600 text-white">
+          <SelectItem value={ANY} className="focus:bg-gray-600 focus:text-white">All exchanges</SelectItem>
+          {exchanges.map((option) => (
+            <SelectItem key={option} value={option} className="focus:bg-gray-600 focus:text-white">
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={type || ANY} onValueChange={(value) => navigate({ type: value })} disabled={!types.length}>
+        <SelectTrigger className="select-trigger sm:w-52">
+          <SelectValue placeholder="Security type" />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-800 border-gray-600 text-white">
+          <SelectItem value={ANY} className="focus:bg-gray-600 focus:text-white">All types</SelectItem>
+          {types.map((option) => (
+            <SelectItem key={option} value={option} className="focus:bg-gray-600 focus:text-white">
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default SearchFilters;
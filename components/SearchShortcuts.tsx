@@ -0,0 +1,100 @@
+"use client";
+
+import { Clock, Pin, PinOff, Star, TrendingUp, X } from "lucide-react";
+import { CommandItem } from "@/components/ui/command";
+
+// Row controls sit inside a CommandItem, so clicks mustn't also select the row. From the keyboard
+// the highlighted row is pinned with Cmd/Ctrl+P and removed with Cmd/Ctrl+Backspace (see SearchCommand).
+const stop = (handler: () => void) => (e: React.MouseEvent) => {
+  e.stopPropagation();
+  handler();
+};
+
+const HistoryRow = ({ entry, onSelect, onTogglePin, onRemove }: SearchHistoryRowProps) => {
+  const Icon = entry.kind === "query" ? Clock : TrendingUp;
+  const PinIcon = entry.pinned ? PinOff : Pin;
+
+  return (
+    <CommandItem value={`history:${entry.id}`} onSelect={() => onSelect(entry)} className="search-item search-item-link">
+      <Icon className="h-4 w-4 text-gray-500" />
+      <div className="flex-1 min-w-0">
+        <div className="search-item-name truncate">{entry.kind === "query" ? `"${entry.value}"` : entry.label}</div>
+        {entry.kind === "stock" && entry.label !== entry.value && (
+          <div className="text-sm text-gray-500">{entry.value}</div>
+        )}
+      </div>
+      <button
+        type="button"
+        className="search-row-action"
+        aria-label={entry.pinned ? "Unpin" : "Pin"}
+        aria-keyshortcuts="Meta+P Control+P"
+        onClick={stop(() => onTogglePin(entry))}
+      >
+        <PinIcon className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        className="search-row-action"
+        aria-label="Remove"
+        aria-keyshortcuts="Meta+Backspace Control+Backspace"
+        onClick={stop(() => onRemove(entry))}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </CommandItem>
+  );
+};
+
+const SearchShortcuts = ({ shortcuts, onOpenStock, onRunQuery, onTogglePin, onRemove, onClear }: SearchShortcutsProps) => {
+  const handleSelect = (entry: SearchHistoryEntry) =>
+    entry.kind === "query" ? onRunQuery(entry.value) : onOpenStock(entry.value);
+
+  return (
+    <>
+      {shortcuts.pinned.length > 0 && (
+        <>
+          <div className="search-count">Pinned</div>
+          {shortcuts.pinned.map((entry) => (
+            <HistoryRow key={entry.id} entry={entry} onSelect={handleSelect} onTogglePin={onTogglePin} onRemove={onRemove} />
+          ))}
+        </>
+      )}
+
+      {shortcuts.recent.length > 0 && (
+        <>
+          <div className="search-count search-section-header">
+            Recent
+            <button type="button" className="search-section-action" onClick={onClear}>
+              Clear
+            </button>
+          </div>
+          {shortcuts.recent.map((entry) => (
+            <HistoryRow key={entry.id} entry={entry} onSelect={handleSelect} onTogglePin={onTogglePin} onRemove={onRemove} />
+          ))}
+        </>
+      )}
+
+      {shortcuts.watchlist.length > 0 && (
+        <>
+          <div className="search-count">Watchlist</div>
+          {shortcuts.watchlist.map((item) => (
+            <CommandItem
+              key={item.symbol}
+              value={`watchlist:${item.symbol}`}
+              onSelect={() => onOpenStock(item.symbol)}
+              className="search-item search-item-link"
+            >
+              <Star className="h-4 w-4 text-yellow-500" />
+              <div className="flex-1">
+                <div className="search-item-name">{item.company}</div>
+                <div className="text-sm text-gray-500">{item.symbol}</div>
+              </div>
+            </CommandItem>
+          ))}
+        </>
+      )}
+    </>
+  );
+};
+
+export default SearchShortcuts;
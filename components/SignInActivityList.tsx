@@ -0,0 +1,40 @@
+import { CheckCircle2, ShieldAlert, ShieldQuestion } from "lucide-react";
+import { getFormattedTimestamp } from "@/lib/utils";
+
+const OUTCOME_ICONS = {
+  success: <CheckCircle2 className="h-5 w-5 shrink-0 text-green-500" />,
+  two_factor: <ShieldQuestion className="h-5 w-5 shrink-0 text-yellow-500" />,
+  failed: <ShieldAlert className="h-5 w-5 shrink-0 text-red-500" />,
+} satisfies Record<SignInAttemptOutcome, React.ReactNode>;
+
+const SignInActivityList = ({ attempts }: SignInActivityListProps) => (
+  <div className="settings-section">
+    <div>
+      <h3 className="settings-heading">Recent Sign-In Activity</h3>
+      <p className="settings-description">
+        Sign-in attempts for your email, including failed ones. If you don&apos;t recognize one, change your password
+        and sign out everywhere else.
+      </p>
+    </div>
+
+    {attempts.length === 0 ? (
+      <p className="settings-description">No sign-in attempts recorded yet.</p>
+    ) : (
+      <ul className="security-list">
+        {attempts.map((attempt) => (
+          <li key={attempt.id} className="security-row">
+            {OUTCOME_ICONS[attempt.outcome]}
+            <div className="flex-1 min-w-0">
+              <div className="security-row-title">{attempt.detail}</div>
+              <div className="security-row-meta">
+                {attempt.device} · {attempt.ipAddress ?? "Unknown IP"} · {getFormattedTimestamp(new Date(attempt.createdAt))}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default SignInActivityList;
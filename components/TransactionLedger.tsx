@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TRANSACTION_TYPE_OPTIONS } from "@/lib/constants";
+import { deleteTransaction } from "@/lib/actions/portfolio.actions";
+import { formatPrice } from "@/lib/utils";
+
+const TYPE_LABELS = Object.fromEntries(TRANSACTION_TYPE_OPTIONS.map((option) => [option.value, option.label]));
+
+const describeTransaction = (tx: PortfolioTransaction) => {
+  switch (tx.type) {
+    case "buy":
+    case "sell":
+      return `${tx.quantity} @ ${formatPrice(tx.price)}`;
+    case "split":
+      return `${tx.splitRatio}-for-1`;
+    default:
+      return formatPrice(tx.amount);
+  }
+};
+
+const TransactionLedger = ({ transactions }: TransactionLedgerProps) => {
+  const router = useRouter();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleDelete = async (tx: PortfolioTransaction) => {
+    setDeletingId(tx.id);
+    const result = await deleteTransaction(tx.id);
+    setDeletingId(null);
+
+    if (!result.success) {
+      toast.error("Failed to delete transaction", { description: result.error });
+      return;
+    }
+
+    toast.success("Transaction deleted");
+    router.refresh();
+  };
+
+  if (transactions.length === 0) {
+    return <p className="alert-empty">No transactions yet. Add a deposit or a buy to get started.</p>;
+  }
+
+  return (
+    <Table className="watchlist-table">
+      <TableHeader>
+        <TableRow className="table-header-row">
+          {["Date", "Type", "Symbol", "Details", "Fees", "Notes", ""].map((header, index) => (
+            <TableHead key={index} className="table-header">{header}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.map((tx) => (
+          <TableRow key={tx.id} className="table-row">
+            <TableCell className="table-cell pl-4">{new Date(tx.executedAt).toLocaleDateString("en-US", { timeZone: "UTC" })}</TableCell>
+            <TableCell className="table-cell">{TYPE_LABELS[tx.type]}</TableCell>
+            <TableCell className="table-cell">{tx.symbol ?? "—"}</TableCell>
+            <TableCell className="table-cell">{describeTransaction(tx)}</TableCell>
+            <TableCell className="table-cell">{tx.fees ? formatPrice(tx.fees) : "—"}</TableCell>
+            <TableCell className="table-cell max-w-48 truncate">{tx.notes}</TableCell>
+            <TableCell className="table-cell">
+              <Button
+                size="icon"
+                className="alert-delete-btn"
+                aria-label="Delete transaction"
+                disabled={deletingId === tx.id}
+                onClick={() => handleDelete(tx)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default TransactionLedger;
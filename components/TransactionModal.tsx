@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import InputField from "@/components/forms/InputField";
+import SelectField from "@/components/forms/SelectField";
+import { TRANSACTION_TYPE_OPTIONS } from "@/lib/constants";
+import { createTransaction } from "@/lib/actions/portfolio.actions";
+import { formatPrice } from "@/lib/utils";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyTransaction: TransactionFormData = {
+  type: "buy",
+  symbol: "",
+  quantity: "",
+  price: "",
+  amount: "",
+  fees: "0",
+  splitRatio: "",
+  executedAt: today(),
+  notes: "",
+};
+
+const TransactionModal = ({ openLots }: TransactionModalProps) => {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({});
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<TransactionFormData>({
+    defaultValues: emptyTransaction,
+    mode: "onBlur",
+  });
+
+  const type = watch("type");
+  const symbol = watch("symbol")?.trim().toUpperCase();
+  const isTrade = type === "buy" || type === "sell";
+  const needsSymbol = isTrade || type === "dividend" || type === "split";
+  const symbolLots = type === "sell" && symbol ? openLots.filter((lot) => lot.symbol === symbol) : [];
+
+  useEffect(() => {
+    if (!open) return;
+    reset({ ...emptyTransaction, executedAt: today() });
+    setLotQuantities({});
+  }, [open, reset]);
+
+  const onSubmit = async (data: TransactionFormData) => {
+    const lots = symbolLots
+      .map((lot) => ({ lotId: lot.lotId, quantity: Number(lotQuantities[lot.lotId] || 0) }))
+      .filter((lot) => lot.quantity > 0);
+
+    const result = await createTransaction({ ...data, lots });
+
+    if (!result.success) {
+      toast.error("Failed to record transaction", { description: result.error });
+      return;
+    }
+
+    toast.success("Transaction recorded");
+    setOpen(false);
+    router.refresh();
+  };
+
+  const positiveNumber = (label: string) => ({
+    required: `${label} is required`,
+    validate: (value: string) => Number(value) > 0 || `${label} must be a positive number`,
+  });
+
+  return (
+    <>
+      <Button className="journal-new-btn" onClick={() => setOpen(true)}>
+        <Plus className="h-4 w-4" />
+        Add Transaction
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="alert-dialog max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="alert-title">Add Transaction</DialogTitle>
+            <DialogDescription className="text-gray-500">
+              Record a trade, corporate action or cash movement.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+            <SelectField
+              name="type"
+              label="Type"
+              placeholder="Select type"
+              options={TRANSACTION_TYPE_OPTIONS}
+              control={control}
+              error={errors.type}
+              required
+            />
+
+            {(needsSymbol || type === "fee") && (
+              <InputField
+                name="symbol"
+                label={needsSymbol ? "Symbol" : "Symbol (optional)"}
+                placeholder="AAPL"
+                register={register}
+                error={errors.symbol}
+                validation={needsSymbol ? { required: "Symbol is required" } : undefined}
+              />
+            )}
+
+            {isTrade && (
+              <div className="grid grid-cols-2 gap-4">
+                <InputField
+                  name="quantity"
+                  label="Shares"
+                  placeholder="10"
+                  type="number"
+                  register={register}
+                  error={errors.quantity}
+                  validation={positiveNumber("Shares")}
+                />
+                <InputField
+                  name="price"
+                  label="Price (USD)"
+                  placeholder="150.00"
+                  type="number"
+                  register={register}
+                  error={errors.price}
+                  validation={positiveNumber("Price")}
+                />
+              </div>
+            )}
+
+            {type === "split" && (
+              <InputField
+                name="splitRatio"
+                label="New shares per old share"
+                placeholder="e.g. 2 for a 2-for-1 split"
+                type="number"
+                register={register}
+                error={errors.splitRatio}
+                validation={positiveNumber("Split ratio")}
+              />
+            )}
+
+            {!isTrade && type !== "split" && (
+              <InputField
+                name="amount"
+                label="Amount (USD)"
+                placeholder="100.00"
+                type="number"
+                register={register}
+                error={errors.amount}
+                validation={positiveNumber("Amount")}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <InputField
+                name="executedAt"
+                label="Date"
+                placeholder=""
+                type="date"
+                register={register}
+                error={errors.executedAt}
+                validation={{ required: "Date is required" }}
+              />
+              {type !== "split" && (
+                <InputField
+                  name="fees"
+                  label={type === "dividend" ? "Withholding (USD)" : "Fees (USD)"}
+                  placeholder="0.00"
+                  type="number"
+                  register={register}
+                  error={errors.fees}
+                />
+              )}
+            </div>
+
+            {symbolLots.length > 0 && (
+              <div className="space-y-2">
+                <p className="form-label">Lots to sell (optional, unmatched shares use FIFO)</p>
+                {symbolLots.map((lot) => (
+                  <div key={lot.lotId} className="grid grid-cols-[1fr_7rem] items-center gap-3 text-sm text-gray-400">
+                    <span>
+                      {new Date(lot.acquiredAt).toLocaleDateString("en-US", { timeZone: "UTC" })} · {lot.quantity} @ {formatPrice(lot.costPerShare)}
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={lot.quantity}
+                      placeholder="0"
+                      className="form-input"
+                      value={lotQuantities[lot.lotId] ?? ""}
+                      onChange={(e) => setLotQuantities((current) => ({ ...current, [lot.lotId]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <InputField name="notes" label="Notes" placeholder="Optional" register={register} error={errors.notes} />
+
+            <Button type="submit" disabled={isSubmitting} className="yellow-btn w-full">
+              {isSubmitting ? "Saving" : "Save Transaction"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default TransactionModal;
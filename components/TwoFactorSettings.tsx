@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import InputField from "@/components/forms/InputField";
+import { LOW_BACKUP_CODES_THRESHOLD } from "@/lib/constants";
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  regenerateBackupCodes,
+  startTwoFactorSetup,
+} from "@/lib/actions/twoFactor.actions";
+
+type SetupData = { qrCode: string; secret: string; backupCodes: string[] };
+
+const TwoFactorSettings = ({ status }: TwoFactorSettingsProps) => {
+  const router = useRouter();
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  // Backup codes are only ever shown right after they're generated
+  const [freshCodes, setFreshCodes] = useState<string[] | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<TwoFactorSettingsFormData>({
+    defaultValues: { password: "", code: "" },
+    mode: "onSubmit",
+  });
+
+  const onStart = async ({ password }: TwoFactorSettingsFormData) => {
+    const result = await startTwoFactorSetup(password);
+    if (!result.success || !result.data) {
+      toast.error("Two-factor setup failed", { description: result.error });
+      return;
+    }
+
+    setSetup(result.data);
+    reset();
+  };
+
+  const onConfirm = async ({ code }: TwoFactorSettingsFormData) => {
+    if (!setup) return;
+
+    const result = await confirmTwoFactorSetup(code);
+    if (!result.success) {
+      toast.error("Two-factor setup failed", { description: result.error });
+      return;
+    }
+
+    toast.success("Two-factor authentication is on");
+    setFreshCodes(setup.backupCodes);
+    setSetup(null);
+    reset();
+  };
+
+  const onRegenerate = async ({ password }: TwoFactorSettingsFormData) => {
+    const result = await regenerateBackupCodes(password);
+    if (!result.success || !result.data) {
+      toast.error("Failed to generate backup codes", { description: result.error });
+      return;
+    }
+
+    setFreshCodes(result.data);
+    reset();
+  };
+
+  const onDisable = async ({ password }: TwoFactorSettingsFormData) => {
+    const result = await disableTwoFactor(password);
+    if (!result.success) {
+      toast.error("Failed to turn off two-factor", { description: result.error });
+      return;
+    }
+
+    toast.success("Two-factor authentication is off");
+    reset();
+    router.refresh();
+  };
+
+  const copyCodes = async (codes: string[]) => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast.success("Backup codes copied");
+    } catch {
+      toast.error("Couldn't copy to the clipboard");
+    }
+  };
+
+  const passwordField = (
+    <InputField
+      name="password"
+      label="Current Password"
+      placeholder="Confirm with your password"
+      type="password"
+      register={register}
+      error={errors.password}
+      validation={{ required: "Password is required" }}
+    />
+  );
+
+  if (freshCodes) {
+    return (
+      <div className="settings-section">
+        <div>
+          <h3 className="settings-heading">Save your backup codes</h3>
+          <p className="settings-description">
+            Each code signs you in once if you lose access to your authenticator app. Store them somewhere safe;
+            they won&apos;t be shown again.
+          </p>
+        </div>
+
+        <ul className="backup-codes">
+          {freshCodes.map((code) => (
+            <li key={code}>{code}</li>
+          ))}
+        </ul>
+
+        <div className="settings-actions">
+          <Button type="button" variant="outline" onClick={() => copyCodes(freshCodes)}>
+            Copy Codes
+          </Button>
+          <Button
+            type="button"
+            className="yellow-btn sm:w-60"
+            onClick={() => {
+              setFreshCodes(null);
+              router.refresh();
+            }}
+          >
+            I&apos;ve Saved Them
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <form onSubmit={handleSubmit(onConfirm)} className="settings-section">
+        <div>
+          <h3 className="settings-heading">Scan the QR code</h3>
+          <p className="settings-description">
+            Scan it with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the
+            6-digit code it shows.
+          </p>
+        </div>
+
+        <Image src={setup.qrCode} alt="Two-factor QR code" width={200} height={200} className="two-factor-qr" unoptimized />
+        <p className="settings-description">
+          Can&apos;t scan it? Enter this key manually: <span className="two-factor-secret">{setup.secret}</span>
+        </p>
+
+        <InputField
+          name="code"
+          label="Authentication Code"
+          placeholder="123456"
+          register={register}
+          error={errors.code}
+          validation={{
+            required: "Code is required",
+            pattern: { value: /^\s*(\d\s*){6}$/, message: "Enter the 6-digit code" },
+          }}
+        />
+
+        <div className="settings-actions">
+          <Button type="submit" disabled={isSubmitting} className="yellow-btn sm:w-60">
+            {isSubmitting ? "Verifying" : "Verify and Turn On"}
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <form onSubmit={handleSubmit(onStart)} className="settings-section">
+        <div>
+          <h3 className="settings-heading">Two-Factor Authentication</h3>
+          <p className="settings-description">
+            Off. Require a code from an authenticator app in addition to your password when you sign in.
+          </p>
+        </div>
+
+        {passwordField}
+
+        <Button type="submit" disabled={isSubmitting} className="yellow-btn sm:w-60">
+          {isSubmitting ? "Starting" : "Set Up Two-Factor"}
+        </Button>
+      </form>
+    );
+  }
+
+  const remaining = status.backupCodesRemaining;
+
+  return (
+    <form onSubmit={handleSubmit(onRegenerate)} className="settings-section">
+      <div>
+        <h3 className="settings-heading">Two-Factor Authentication</h3>
+        <p className="settings-description">
+          On. You&apos;ll be asked for a code from your authenticator app when you sign in on a new device.
+          {remaining !== null && ` ${remaining} backup ${remaining === 1 ? "code" : "codes"} left.`}
+        </p>
+        {remaining !== null && remaining <= LOW_BACKUP_CODES_THRESHOLD && (
+          <p className="mt-2 text-sm text-yellow-500">
+            You&apos;re running low on backup codes. Generate a new set so you don&apos;t get locked out.
+          </p>
+        )}
+      </div>
+
+      {passwordField}
+
+      <div className="settings-actions">
+        <Button type="submit" disabled={isSubmitting} className="yellow-btn sm:w-60">
+          Generate New Backup Codes
+        </Button>
+        <Button type="button" variant="destructive" disabled={isSubmitting} onClick={handleSubmit(onDisable)}>
+          Turn Off
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorSettings;
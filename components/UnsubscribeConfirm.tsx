@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { unsubscribeWithToken } from '@/lib/actions/notification.actions';
+
+const UnsubscribeConfirm = ({ token, label }: { token: string; label: string }) => {
+    const [pending, setPending] = useState(false);
+    const [done, setDone] = useState(false);
+
+    const handleUnsubscribe = async () => {
+        setPending(true);
+        const result = await unsubscribeWithToken(token);
+        setPending(false);
+
+        if (!result.success) {
+            toast.error('Unsubscribe failed', { description: result.error });
+            return;
+        }
+
+        setDone(true);
+    }
+
+    return (
+        <>
+            <h1 className="form-title">{done ? 'You are unsubscribed' : 'Unsubscribe'}</h1>
+            <p className="auth-message">
+                {done
+                    ? `You won't receive "${label}" emails anymore. You can turn them back on from your notification settings.`
+                    : `Stop receiving "${label}" emails from Market Journal?`}
+            </p>
+            {done ? (
+                <Link href="/settings/notifications" className="yellow-btn w-full inline-flex items-center justify-center">
+                    Notification Settings
+                </Link>
+            ) : (
+                <Button type="button" disabled={pending} onClick={handleUnsubscribe} className="yellow-btn w-full">
+                    {pending ? 'Unsubscribing' : 'Unsubscribe'}
+                </Button>
+            )}
+        </>
+    )
+}
+
+export default UnsubscribeConfirm;
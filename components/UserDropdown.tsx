@@ -11,11 +11,11 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import {useRouter} from "next/navigation";
 import {Button} from "@/components/ui/button";
-import {LogOut} from "lucide-react";
+import {Bell, LogOut, Mail, ShieldCheck, UserCog} from "lucide-react";
 import NavItems from "@/components/NavItems";
 import {signOut} from "@/lib/actions/auth.actions";
 
-const UserDropdown = ({ user, initialStocks }: {user: User, initialStocks: StockWithWatchlistStatus[]}) => {
+const UserDropdown = ({ user, initialStocks, isAdmin = false }: {user: User, initialStocks: StockWithWatchlistStatus[], isAdmin?: boolean}) => {
     const router = useRouter();
 
     const handleSignOut = async () => {
@@ -58,6 +58,24 @@ const UserDropdown = ({ user, initialStocks }: {user: User, initialStocks: Stock
                     </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator className="bg-gray-600"/>
+                <DropdownMenuItem onClick={() => router.push("/settings/profile")} className="text-gray-100 text-md font-medium focus:bg-transparent focus:text-yellow-500 transition-colors cursor-pointer">
+                    <UserCog className="h-4 w-4 mr-2 hidden sm:block" />
+                    Profile
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/settings/security")} className="text-gray-100 text-md font-medium focus:bg-transparent focus:text-yellow-500 transition-colors cursor-pointer">
+                    <ShieldCheck className="h-4 w-4 mr-2 hidden sm:block" />
+                    Security
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/settings/notifications")} className="text-gray-100 text-md font-medium focus:bg-transparent focus:text-yellow-500 transition-colors cursor-pointer">
+                    <Bell className="h-4 w-4 mr-2 hidden sm:block" />
+                    Notifications
+                </DropdownMenuItem>
+                {isAdmin && (
+                    <DropdownMenuItem onClick={() => router.push("/admin/emails")} className="text-gray-100 text-md font-medium focus:bg-transparent focus:text-yellow-500 transition-colors cursor-pointer">
+                        <Mail className="h-4 w-4 mr-2 hidden sm:block" />
+                        Email Log
+                    </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={handleSignOut} className="text-gray-100 text-md font-medium focus:bg-transparent focus:text-yellow-500 transition-colors cursor-pointer">
                     <LogOut className="h-4 w-4 mr-2 hidden sm:block" />
                     Logout
@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { verifyEmail } from '@/lib/actions/auth.actions';
+
+const VerifyEmailConfirm = ({ token }: { token: string }) => {
+    const [pending, setPending] = useState(false);
+    const [result, setResult] = useState<{ success: boolean; error?: string } | null>(null);
+
+    const handleVerify = async () => {
+        setPending(true);
+        setResult(await verifyEmail(token));
+        setPending(false);
+    }
+
+    if (!result) {
+        return (
+            <>
+                <h1 className="form-title">Confirm your email</h1>
+                <p className="auth-message">Confirm this address for your Market Journal account.</p>
+                <Button type="button" disabled={pending} onClick={handleVerify} className="yellow-btn w-full">
+                    {pending ? 'Confirming' : 'Confirm Email'}
+                </Button>
+            </>
+        )
+    }
+
+    return (
+        <>
+            <h1 className="form-title">{result.success ? 'Email verified' : 'Verification failed'}</h1>
+            <p className="auth-message">
+                {result.success ? 'Thanks for confirming your email address.' : result.error}
+            </p>
+            <Link href="/" className="yellow-btn w-full inline-flex items-center justify-center">
+                Continue to Market Journal
+            </Link>
+        </>
+    )
+}
+
+export default VerifyEmailConfirm;
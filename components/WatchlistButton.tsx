@@ -1,5 +1,7 @@
 "use client";
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState, useTransition } from "react";
+import { toast } from "sonner";
+import { toggleWatchlist } from "@/lib/actions/watchlist.actions";
 
 const WatchlistButton = ({
   symbol,
@@ -10,6 +12,12 @@ const WatchlistButton = ({
   onWatchlistChange,
 }: WatchlistButtonProps) => {
   const [added, setAdded] = useState<boolean>(!!isInWatchlist);
+  const [isPending, startTransition] = useTransition();
+
+  // Parents that toggle the symbol themselves (e.g. keyboard shortcuts) pass the new status down
+  useEffect(() => {
+    setAdded(!!isInWatchlist);
+  }, [isInWatchlist]);
 
   const label = useMemo(() => {
     if (type === "icon") return added ? "" : "";
@@ -17,9 +25,23 @@ const WatchlistButton = ({
   }, [added, type]);
 
   const handleClick = () => {
+    if (isPending) return;
+
     const next = !added;
+    // Optimistic update: flip immediately, roll back if the server rejects it
     setAdded(next);
     onWatchlistChange?.(symbol, next);
+
+    startTransition(async () => {
+      const result = await toggleWatchlist(symbol, company, next);
+      if (result.success) return;
+
+      setAdded(!next);
+      onWatchlistChange?.(symbol, !next);
+      toast.error(next ? "Could not add to watchlist" : "Could not remove from watchlist", {
+        description: result.error ?? `Please try again to update ${symbol}.`,
+      });
+    });
   };
 
   if (type === "icon") {
@@ -29,6 +51,7 @@ const WatchlistButton = ({
         aria-label={added ? `Remove ${symbol} from watchlist` : `Add ${symbol} to watchlist`}
         className={`watchlist-icon-btn ${added ? "watchlist-icon-added" : ""}`}
         onClick={handleClick}
+        disabled={isPending}
       >
         <svg
           xmlns="http://www.w3.org/2000/svg"
@@ -49,7 +72,7 @@ const WatchlistButton = ({
   }
 
   return (
-    <button className={`watchlist-btn ${added ? "watchlist-remove" : ""}`} onClick={handleClick}>
+    <button className={`watchlist-btn ${added ? "watchlist-remove" : ""}`} onClick={handleClick} disabled={isPending}>
       {showTrashIcon && added ? (
         <svg
           xmlns="http://www.w3.org/2000/svg"
@@ -0,0 +1,168 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowDown, ArrowUp, ArrowUpDown, BellPlus } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import WatchlistButton from "@/components/WatchlistButton";
+import AlertModal from "@/components/AlertModal";
+import { WATCHLIST_TABLE_HEADER } from "@/lib/constants";
+import { cn, getChangeColorClass } from "@/lib/utils";
+
+type SortKey = "company" | "symbol" | "currentPrice" | "changePercent" | "marketCapValue" | "peRatioValue";
+type SortDirection = "asc" | "desc";
+
+const SORT_KEY_BY_HEADER: Record<string, SortKey | undefined> = {
+  Company: "company",
+  Symbol: "symbol",
+  Price: "currentPrice",
+  Change: "changePercent",
+  "Market Cap": "marketCapValue",
+  "P/E Ratio": "peRatioValue",
+};
+
+// The P/E cell shows '—' for non-positive ratios, so they sort with the missing ones
+const getSortValue = (stock: StockWithData, key: SortKey) => {
+  const value = stock[key];
+  if (key === "peRatioValue" && typeof value === "number" && value <= 0) return undefined;
+  return value;
+};
+
+const compareStocks = (a: StockWithData, b: StockWithData, key: SortKey) => {
+  const left = getSortValue(a, key);
+  const right = getSortValue(b, key);
+
+  if (typeof left === "string" && typeof right === "string") return left.localeCompare(right);
+
+  // Rows without data always sink to the bottom, whatever the direction
+  if (left === undefined && right === undefined) return 0;
+  if (left === undefined) return 1;
+  if (right === undefined) return -1;
+  return (left as number) - (right as number);
+};
+
+const WatchlistTable = ({ watchlist }: WatchlistTableProps) => {
+  const [removed, setRemoved] = useState<Set<string>>(new Set());
+  const [sort, setSort] = useState<{ key: SortKey; direction: SortDirection } | null>(null);
+  const [alertTarget, setAlertTarget] = useState<StockWithData | null>(null);
+
+  const alertData = useMemo<AlertData | undefined>(
+    () =>
+      alertTarget
+        ? {
+            symbol: alertTarget.symbol,
+            company: alertTarget.company,
+            alertName: `${alertTarget.symbol} price alert`,
+            alertType: "upper",
+            threshold: alertTarget.currentPrice ? alertTarget.currentPrice.toFixed(2) : "",
+          }
+        : undefined,
+    [alertTarget]
+  );
+
+  const rows = useMemo(() => {
+    const visible = watchlist.filter((stock) => !removed.has(stock.symbol));
+    if (!sort) return visible;
+
+    const sorted = [...visible].sort((a, b) => {
+      const result = compareStocks(a, b, sort.key);
+      const bothPresent = getSortValue(a, sort.key) !== undefined && getSortValue(b, sort.key) !== undefined;
+      return sort.direction === "desc" && bothPresent ? -result : result;
+    });
+    return sorted;
+  }, [watchlist, removed, sort]);
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) => {
+      if (current?.key !== key) return { key, direction: "asc" };
+      if (current.direction === "asc") return { key, direction: "desc" };
+      return null;
+    });
+  };
+
+  const handleWatchlistChange = (symbol: string, isAdded: boolean) => {
+    setRemoved((current) => {
+      const next = new Set(current);
+      if (isAdded) next.delete(symbol);
+      else next.add(symbol);
+      return next;
+    });
+  };
+
+  return (
+    <>
+      <Table className="watchlist-table">
+        <TableHeader>
+          <TableRow className="table-header-row">
+            {WATCHLIST_TABLE_HEADER.map((header) => {
+              const key = SORT_KEY_BY_HEADER[header];
+              if (!key) return <TableHead key={header} className="table-header">{header}</TableHead>;
+
+              const SortIcon = sort?.key !== key ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+              return (
+                <TableHead key={header} className="table-header">
+                  <button
+                    type="button"
+                    onClick={() => handleSort(key)}
+                    className="flex items-center gap-1 cursor-pointer hover:text-yellow-500"
+                  >
+                    {header}
+                    <SortIcon className="h-3.5 w-3.5" />
+                  </button>
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((stock) => (
+            <TableRow key={stock.symbol} className="table-row">
+              <TableCell className="table-cell pl-4">
+                <Link href={`/stocks/${stock.symbol}`} className="hover:text-yellow-500">
+                  {stock.company}
+                </Link>
+              </TableCell>
+              <TableCell className="table-cell">
+                <Link href={`/stocks/${stock.symbol}`} className="hover:text-yellow-500">
+                  {stock.symbol}
+                </Link>
+              </TableCell>
+              <TableCell className="table-cell">{stock.priceFormatted}</TableCell>
+              <TableCell className={cn("table-cell", getChangeColorClass(stock.changePercent))}>
+                {stock.changeFormatted}
+              </TableCell>
+              <TableCell className="table-cell">{stock.marketCap}</TableCell>
+              <TableCell className="table-cell">{stock.peRatio}</TableCell>
+              <TableCell className="table-cell">
+                <button type="button" className="add-alert" onClick={() => setAlertTarget(stock)}>
+                  <BellPlus className="h-4 w-4" />
+                  Add Alert
+                </button>
+              </TableCell>
+              <TableCell className="table-cell">
+                <WatchlistButton
+                  symbol={stock.symbol}
+                  company={stock.company}
+                  isInWatchlist
+                  showTrashIcon
+                  onWatchlistChange={handleWatchlistChange}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <AlertModal
+        alertData={alertData}
+        action="create"
+        open={!!alertTarget}
+        setOpen={(open) => {
+          if (!open) setAlertTarget(null);
+        }}
+      />
+    </>
+  );
+};
+
+export default WatchlistTable;
@@ -0,0 +1,30 @@
+import React from 'react'
+import {Label} from "@/components/ui/label";
+import {Textarea} from "@/components/ui/textarea";
+
+// Variante multilínea de InputField para textos largos (tesis, notas en markdown, etc.)
+// Se conecta a react-hook-form igual que InputField, mediante register
+const TextAreaField = ({ name, label, placeholder, register, error, validation, rows = 4 }: TextAreaFieldProps) => {
+    return (
+        <div className="space-y-2">
+            <Label htmlFor={name} className="form-label">
+                {label}
+            </Label>
+
+            <Textarea
+                id={name}
+                rows={rows}
+                placeholder={placeholder}
+                className="form-textarea"
+                {...register(name, validation)}
+            />
+
+            {error && (
+                <p className="text-sm text-red-500">
+                    {error.message}
+                </p>
+            )}
+        </div>
+    )
+}
+export default TextAreaField
@@ -0,0 +1,44 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+import { ALERT_COOLDOWN_MINUTES, VOLUME_ALERT_AVERAGE_DAYS } from '@/lib/constants';
+
+export interface AlertItem extends Document {
+  userId: string;
+  symbol: string;
+  company: string;
+  alertName: string;
+  alertType: AlertType;
+  threshold: number;
+  averageDays: number;
+  isActive: boolean;
+  cooldownMinutes: number;
+  lastTriggeredAt: Date | null;
+  lastTriggeredPrice: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AlertSchema = new Schema<AlertItem>(
+  {
+    userId: { type: String, required: true, index: true },
+    symbol: { type: String, required: true, uppercase: true, trim: true },
+    company: { type: String, required: true, trim: true },
+    alertName: { type: String, required: true, trim: true },
+    alertType: { type: String, enum: ['upper', 'lower', 'volume'], required: true },
+    // Price target for upper/lower alerts, volume multiplier (e.g. 2 = twice the average) for volume alerts
+    threshold: { type: Number, required: true, min: 0 },
+    averageDays: { type: Number, default: VOLUME_ALERT_AVERAGE_DAYS, min: 2, max: 90 },
+    isActive: { type: Boolean, default: true },
+    // Minimum time between two emails for the same alert while the price stays past the threshold
+    cooldownMinutes: { type: Number, default: ALERT_COOLDOWN_MINUTES, min: 0 },
+    lastTriggeredAt: { type: Date, default: null },
+    lastTriggeredPrice: { type: Number, default: null },
+  },
+  { timestamps: true }
+);
+
+// Alerts are listed per user and evaluated per symbol
+AlertSchema.index({ userId: 1, symbol: 1 });
+AlertSchema.index({ isActive: 1, symbol: 1 });
+
+export const Alert: Model<AlertItem> =
+  (models?.Alert as Model<AlertItem>) || model<AlertItem>('Alert', AlertSchema);
@@ -0,0 +1,46 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+import type { SendMailOptions } from 'nodemailer';
+
+export interface EmailLogItem extends Document {
+  to: string;
+  userId?: string;
+  template: EmailTemplate;
+  subject: string;
+  status: EmailLogStatus;
+  attempts: number;
+  error?: string;
+  messageId?: string;
+  message?: SendMailOptions;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailLogSchema = new Schema<EmailLogItem>(
+  {
+    to: { type: String, required: true, lowercase: true, trim: true },
+    // Set for emails the user can opt out of, so a retry can re-check their preferences
+    userId: { type: String },
+    template: {
+      type: String,
+      enum: ['welcome', 'news_summary', 'price_alert', 'volume_alert', 'email_verification', 'password_reset', 'inactive_reminder'],
+      required: true,
+    },
+    subject: { type: String, required: true },
+    status: { type: String, enum: ['sent', 'retrying', 'failed'], required: true },
+    attempts: { type: Number, required: true, default: 1 },
+    // Last transport error, kept after a successful retry so the history stays visible
+    error: { type: String },
+    messageId: { type: String },
+    // Rendered mail options, kept only while a retry may still need them
+    message: { type: Schema.Types.Mixed },
+    // Entries expire after 90 days
+    createdAt: { type: Date, default: Date.now, expires: 90 * 24 * 60 * 60 },
+  },
+  { timestamps: true }
+);
+
+EmailLogSchema.index({ to: 1, createdAt: -1 });
+EmailLogSchema.index({ status: 1, createdAt: -1 });
+
+export const EmailLog: Model<EmailLogItem> =
+  (models?.EmailLog as Model<EmailLogItem>) || model<EmailLogItem>('EmailLog', EmailLogSchema);
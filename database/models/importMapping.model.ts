@@ -0,0 +1,27 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface ImportMappingItem extends Document {
+  userId: string;
+  name: string;
+  target: ImportTarget;
+  columns: Map<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ImportMappingSchema = new Schema<ImportMappingItem>(
+  {
+    userId: { type: String, required: true, index: true },
+    // Usually the broker account the export comes from
+    name: { type: String, required: true, trim: true },
+    target: { type: String, enum: ['transactions', 'journal'], required: true },
+    columns: { type: Map, of: String, default: {} },
+  },
+  { timestamps: true }
+);
+
+// Saving under an existing name replaces that mapping
+ImportMappingSchema.index({ userId: 1, name: 1, target: 1 }, { unique: true });
+
+export const ImportMapping: Model<ImportMappingItem> =
+  (models?.ImportMapping as Model<ImportMappingItem>) || model<ImportMappingItem>('ImportMapping', ImportMappingSchema);
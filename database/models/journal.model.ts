@@ -0,0 +1,51 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface JournalEntryItem extends Document {
+  userId: string;
+  symbol: string;
+  side: TradeSide;
+  entryPrice: number;
+  exitPrice: number | null;
+  stopPrice: number | null;
+  entryAt: Date;
+  exitAt: Date | null;
+  quantity: number;
+  fees: number;
+  strategy: string;
+  thesis: string;
+  emotions: string;
+  lessons: string;
+  notes: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JournalEntrySchema = new Schema<JournalEntryItem>(
+  {
+    userId: { type: String, required: true, index: true },
+    symbol: { type: String, required: true, uppercase: true, trim: true },
+    side: { type: String, enum: ['long', 'short'], required: true },
+    entryPrice: { type: Number, required: true, min: 0 },
+    // Open trades have no exit yet
+    exitPrice: { type: Number, default: null, min: 0 },
+    // Initial stop, used to express results in R-multiples
+    stopPrice: { type: Number, default: null, min: 0 },
+    entryAt: { type: Date, required: true },
+    exitAt: { type: Date, default: null },
+    quantity: { type: Number, required: true, min: 0 },
+    fees: { type: Number, default: 0, min: 0 },
+    strategy: { type: String, default: '', trim: true },
+    thesis: { type: String, default: '' },
+    emotions: { type: String, default: '' },
+    lessons: { type: String, default: '' },
+    // Free-form markdown
+    notes: { type: String, default: '' },
+  },
+  { timestamps: true }
+);
+
+JournalEntrySchema.index({ userId: 1, entryAt: -1 });
+JournalEntrySchema.index({ userId: 1, symbol: 1 });
+
+export const JournalEntry: Model<JournalEntryItem> =
+  (models?.JournalEntry as Model<JournalEntryItem>) || model<JournalEntryItem>('JournalEntry', JournalEntrySchema);
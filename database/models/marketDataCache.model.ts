@@ -0,0 +1,32 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface MarketDataCacheItem extends Document {
+  key: string;
+  kind: MarketDataCacheKind;
+  data: unknown;
+  fetchedAt: Date;
+  staleAt: Date;
+  expiresAt: Date;
+}
+
+const MarketDataCacheSchema = new Schema<MarketDataCacheItem>(
+  {
+    // Endpoint plus params, e.g. "quote:AAPL" or "company-news:AAPL:2024-10-01:2024-10-06"
+    key: { type: String, required: true, unique: true },
+    kind: { type: String, enum: ['quote', 'profile', 'metrics', 'news', 'search'], required: true },
+    // Raw provider response; null is cached too so unknown symbols aren't refetched
+    data: { type: Schema.Types.Mixed, default: null },
+    fetchedAt: { type: Date, required: true },
+    // After this the entry is still served but refreshed in the background
+    staleAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  { minimize: false }
+);
+
+// Mongo's TTL monitor removes entries once they're past expiresAt
+MarketDataCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const MarketDataCache: Model<MarketDataCacheItem> =
+  (models?.MarketDataCache as Model<MarketDataCacheItem>) ||
+  model<MarketDataCacheItem>('MarketDataCache', MarketDataCacheSchema);
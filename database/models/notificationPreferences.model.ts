@@ -0,0 +1,35 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface NotificationPreferencesItem extends Document {
+  userId: string;
+  digest: boolean;
+  alerts: boolean;
+  engagement: boolean;
+  digestHour: number;
+  timezone: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Users without a document get DEFAULT_NOTIFICATION_PREFERENCES, so every email stays
+// opted in until the user changes something or follows an unsubscribe link
+const NotificationPreferencesSchema = new Schema<NotificationPreferencesItem>(
+  {
+    userId: { type: String, required: true, unique: true },
+    // Daily news summary
+    digest: { type: Boolean, required: true },
+    // Price and volume alert emails
+    alerts: { type: Boolean, required: true },
+    // Welcome and inactivity reminder emails
+    engagement: { type: Boolean, required: true },
+    // Local hour (0-23) the digest should arrive, in `timezone`
+    digestHour: { type: Number, required: true, min: 0, max: 23 },
+    // IANA name, e.g. America/Bogota
+    timezone: { type: String, required: true, trim: true },
+  },
+  { timestamps: true }
+);
+
+export const NotificationPreferences: Model<NotificationPreferencesItem> =
+  (models?.NotificationPreferences as Model<NotificationPreferencesItem>) ||
+  model<NotificationPreferencesItem>('NotificationPreferences', NotificationPreferencesSchema);
@@ -0,0 +1,28 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface SearchHistoryItem extends Document {
+  userId: string;
+  kind: SearchHistoryKind;
+  value: string;
+  label: string;
+  pinned: boolean;
+  lastUsedAt: Date;
+}
+
+const SearchHistorySchema = new Schema<SearchHistoryItem>({
+  userId: { type: String, required: true, index: true },
+  // A typed query, or a stock page the user opened
+  kind: { type: String, enum: ['query', 'stock'], required: true },
+  // The query text as typed, or the ticker for stock views
+  value: { type: String, required: true, trim: true },
+  label: { type: String, default: '', trim: true },
+  // Pinned entries are never pruned and aren't removed by "Clear"
+  pinned: { type: Boolean, default: false },
+  lastUsedAt: { type: Date, default: Date.now },
+});
+
+// Repeating a search bumps the existing entry instead of adding another
+SearchHistorySchema.index({ userId: 1, kind: 1, value: 1 }, { unique: true });
+
+export const SearchHistory: Model<SearchHistoryItem> =
+  (models?.SearchHistory as Model<SearchHistoryItem>) || model<SearchHistoryItem>('SearchHistory', SearchHistorySchema);
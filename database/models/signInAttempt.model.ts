@@ -0,0 +1,30 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface SignInAttemptItem extends Document {
+  email: string;
+  userId?: string;
+  outcome: SignInAttemptOutcome;
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const SignInAttemptSchema = new Schema<SignInAttemptItem>({
+  // Failed attempts can't always be tied to a user, so the log is read back by email
+  email: { type: String, required: true, lowercase: true, trim: true },
+  userId: { type: String },
+  // two_factor: the password was right and the sign-in is waiting on a 2FA code
+  outcome: { type: String, enum: ['success', 'two_factor', 'failed'], required: true },
+  // Better Auth error code for failures, e.g. INVALID_EMAIL_OR_PASSWORD
+  reason: { type: String },
+  ipAddress: { type: String },
+  userAgent: { type: String },
+  // Attempts expire after 90 days
+  createdAt: { type: Date, default: Date.now, expires: 90 * 24 * 60 * 60 },
+});
+
+SignInAttemptSchema.index({ email: 1, createdAt: -1 });
+
+export const SignInAttempt: Model<SignInAttemptItem> =
+  (models?.SignInAttempt as Model<SignInAttemptItem>) || model<SignInAttemptItem>('SignInAttempt', SignInAttemptSchema);
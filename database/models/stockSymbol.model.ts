@@ -0,0 +1,30 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface StockSymbolItem extends Document {
+  exchange: string;
+  symbol: string;
+  displaySymbol: string;
+  description: string;
+  type: string;
+  currency?: string;
+  mic?: string;
+  refreshedAt: Date;
+}
+
+const StockSymbolSchema = new Schema<StockSymbolItem>({
+  // The listing this row came from ("US", "TO", ...), not the venue; mic holds that
+  exchange: { type: String, required: true, uppercase: true, trim: true },
+  symbol: { type: String, required: true, uppercase: true, trim: true },
+  displaySymbol: { type: String, required: true, trim: true },
+  description: { type: String, default: '', trim: true },
+  type: { type: String, default: '' },
+  currency: { type: String },
+  mic: { type: String },
+  // Rows an exchange refresh didn't touch have been delisted and are pruned
+  refreshedAt: { type: Date, required: true },
+});
+
+StockSymbolSchema.index({ exchange: 1, symbol: 1 }, { unique: true });
+
+export const StockSymbol: Model<StockSymbolItem> =
+  (models?.StockSymbol as Model<StockSymbolItem>) || model<StockSymbolItem>('StockSymbol', StockSymbolSchema);
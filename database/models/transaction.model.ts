@@ -0,0 +1,58 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface TransactionItem extends Document {
+  userId: string;
+  type: TransactionType;
+  symbol: string | null;
+  quantity: number;
+  price: number;
+  amount: number;
+  fees: number;
+  splitRatio: number | null;
+  executedAt: Date;
+  notes: string;
+  lots: LotSelection[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LotSelectionSchema = new Schema<LotSelection>(
+  {
+    // _id of the buy transaction that opened the lot
+    lotId: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const TransactionSchema = new Schema<TransactionItem>(
+  {
+    userId: { type: String, required: true, index: true },
+    type: {
+      type: String,
+      enum: ['buy', 'sell', 'dividend', 'split', 'fee', 'deposit', 'withdrawal'],
+      required: true,
+    },
+    // Cash movements (deposit, withdrawal, account fees) aren't tied to a symbol
+    symbol: { type: String, default: null, uppercase: true, trim: true },
+    // Shares for buys and sells
+    quantity: { type: Number, default: 0, min: 0 },
+    // Per-share price for buys and sells
+    price: { type: Number, default: 0, min: 0 },
+    // Cash amount for dividends, fees, deposits and withdrawals
+    amount: { type: Number, default: 0, min: 0 },
+    fees: { type: Number, default: 0, min: 0 },
+    // New shares per old share, e.g. 2 for a 2-for-1 split
+    splitRatio: { type: Number, default: null, min: 0 },
+    executedAt: { type: Date, required: true },
+    notes: { type: String, default: '' },
+    // Lots closed by a sell when using specific-lot identification
+    lots: { type: [LotSelectionSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+TransactionSchema.index({ userId: 1, executedAt: 1 });
+
+export const Transaction: Model<TransactionItem> =
+  (models?.Transaction as Model<TransactionItem>) || model<TransactionItem>('Transaction', TransactionSchema);
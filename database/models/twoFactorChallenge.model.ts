@@ -0,0 +1,20 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+import { TWO_FACTOR_CHALLENGE_MINUTES } from '@/lib/constants';
+
+export interface TwoFactorChallengeItem extends Document {
+  key: string;
+  failures: number;
+  createdAt: Date;
+}
+
+const TwoFactorChallengeSchema = new Schema<TwoFactorChallengeItem>({
+  // SHA-256 of the signed two-factor cookie, so the stored value can't be replayed as a cookie
+  key: { type: String, required: true, unique: true },
+  failures: { type: Number, default: 0 },
+  // Outlives the challenge it counts, so a locked-out cookie stays locked until it expires
+  createdAt: { type: Date, default: Date.now, expires: TWO_FACTOR_CHALLENGE_MINUTES * 60 },
+});
+
+export const TwoFactorChallenge: Model<TwoFactorChallengeItem> =
+  (models?.TwoFactorChallenge as Model<TwoFactorChallengeItem>) ||
+  model<TwoFactorChallengeItem>('TwoFactorChallenge', TwoFactorChallengeSchema);
@@ -0,0 +1,18 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface UserActivityItem extends Document {
+  userId: string;
+  lastSeenAt: Date;
+  reminderSentAt?: Date;
+}
+
+const UserActivitySchema = new Schema<UserActivityItem>({
+  userId: { type: String, required: true, unique: true },
+  // Bumped from the (root) layout at most once per USER_ACTIVITY_WRITE_INTERVAL_SECONDS
+  lastSeenAt: { type: Date, required: true, index: true },
+  // A reminder older than lastSeenAt belongs to an earlier absence, so a new one can go out
+  reminderSentAt: { type: Date },
+});
+
+export const UserActivity: Model<UserActivityItem> =
+  (models?.UserActivity as Model<UserActivityItem>) || model<UserActivityItem>('UserActivity', UserActivitySchema);
@@ -0,0 +1,28 @@
+import { Schema, model, models, type Document, type Model } from 'mongoose';
+
+export interface UserProfileItem extends Document {
+  userId: string;
+  country: string;
+  investmentGoals: string;
+  riskTolerance: string;
+  preferredIndustry: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Investment profile collected at sign-up; kept beside Better Auth's user document
+// rather than on it so the auth schema stays untouched
+const UserProfileSchema = new Schema<UserProfileItem>(
+  {
+    userId: { type: String, required: true, unique: true },
+    // ISO 3166-1 alpha-2, as picked in CountrySelectField
+    country: { type: String, required: true, uppercase: true, trim: true },
+    investmentGoals: { type: String, required: true },
+    riskTolerance: { type: String, required: true },
+    preferredIndustry: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+export const UserProfile: Model<UserProfileItem> =
+  (models?.UserProfile as Model<UserProfileItem>) || model<UserProfileItem>('UserProfile', UserProfileSchema);
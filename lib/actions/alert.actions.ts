@@ -0,0 +1,183 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { connectToDatabase } from '@/database/mongoose';
+import { Alert } from '@/database/models/alert.model';
+import { getSessionUser } from '@/lib/better-auth/session';
+import { getStockSnapshot } from '@/lib/actions/finnhub.actions';
+import { getUsersByIds } from '@/lib/actions/user.actions';
+import { VOLUME_ALERT_AVERAGE_DAYS } from '@/lib/constants';
+
+const ALERT_TYPES: AlertType[] = ['upper', 'lower', 'volume'];
+
+const parseAlertData = (data: AlertData) => {
+  const symbol = data.symbol?.trim().toUpperCase();
+  const alertName = data.alertName?.trim();
+  const threshold = Number(data.threshold);
+  const averageDays = data.averageDays ? Number(data.averageDays) : VOLUME_ALERT_AVERAGE_DAYS;
+
+  if (!symbol) return { error: 'Symbol is required' } as const;
+  if (!alertName) return { error: 'Alert name is required' } as const;
+  if (!ALERT_TYPES.includes(data.alertType)) return { error: 'Invalid alert type' } as const;
+
+  if (data.alertType === 'volume') {
+    if (!Number.isFinite(threshold) || threshold <= 1) return { error: 'Volume multiplier must be greater than 1' } as const;
+    if (!Number.isInteger(averageDays) || averageDays < 2 || averageDays > 90) {
+      return { error: 'Average period must be between 2 and 90 days' } as const;
+    }
+  } else if (!Number.isFinite(threshold) || threshold <= 0) {
+    return { error: 'Threshold must be a positive price' } as const;
+  }
+
+  return {
+    value: {
+      symbol,
+      company: data.company?.trim() || symbol,
+      alertName,
+      alertType: data.alertType,
+      threshold,
+      averageDays,
+    },
+  } as const;
+};
+
+export async function getUserAlerts(): Promise<Alert[]> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return [];
+
+    await connectToDatabase();
+    const items = await Alert.find({ userId: user.id }).sort({ createdAt: -1 }).lean();
+    if (items.length === 0) return [];
+
+    // One quote lookup per symbol, shared by every alert on it
+    const symbols = [...new Set(items.map((item) => item.symbol))];
+    const snapshots = await Promise.all(symbols.map(async (symbol) => [symbol, await getStockSnapshot(symbol)] as const));
+    const quotes = new Map(snapshots.map(([symbol, snapshot]) => [symbol, snapshot.quote]));
+
+    return items.map((item) => {
+      const quote = quotes.get(item.symbol);
+      return {
+        id: String(item._id),
+        symbol: item.symbol,
+        company: item.company,
+        alertName: item.alertName,
+        alertType: item.alertType,
+        threshold: item.threshold,
+        averageDays: item.averageDays,
+        currentPrice: quote?.c ?? 0,
+        changePercent: quote?.dp,
+      };
+    });
+  } catch (err) {
+    console.error('getUserAlerts error:', err);
+    return [];
+  }
+}
+
+export async function createAlert(data: AlertData) {
+  const parsed = parseAlertData(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage alerts' };
+
+    await connectToDatabase();
+    const alert = await Alert.create({ userId: user.id, ...parsed.value });
+
+    revalidatePath('/watchlist');
+    return { success: true, id: String(alert._id) };
+  } catch (err) {
+    console.error('createAlert error:', err);
+    return { success: false, error: 'Failed to create alert' };
+  }
+}
+
+export async function updateAlert(alertId: string, data: AlertData) {
+  const parsed = parseAlertData(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage alerts' };
+
+    await connectToDatabase();
+    // Scoping by userId keeps users from editing alerts they don't own
+    // A changed threshold is a new target, so the previous trigger no longer applies
+    const updated = await Alert.findOneAndUpdate(
+      { _id: alertId, userId: user.id },
+      { ...parsed.value, lastTriggeredAt: null, lastTriggeredPrice: null },
+      { new: true }
+    );
+    if (!updated) return { success: false, error: 'Alert not found' };
+
+    revalidatePath('/watchlist');
+    return { success: true, id: String(updated._id) };
+  } catch (err) {
+    console.error('updateAlert error:', err);
+    return { success: false, error: 'Failed to update alert' };
+  }
+}
+
+export async function deleteAlert(alertId: string) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage alerts' };
+
+    await connectToDatabase();
+    const result = await Alert.deleteOne({ _id: alertId, userId: user.id });
+    if (result.deletedCount === 0) return { success: false, error: 'Alert not found' };
+
+    revalidatePath('/watchlist');
+    return { success: true };
+  } catch (err) {
+    console.error('deleteAlert error:', err);
+    return { success: false, error: 'Failed to delete alert' };
+  }
+}
+
+export async function getActiveAlertsForEvaluation(): Promise<AlertForEvaluation[]> {
+  try {
+    await connectToDatabase();
+    const items = await Alert.find({ isActive: true }).lean();
+    if (items.length === 0) return [];
+
+    const users = await getUsersByIds(items.map((item) => item.userId));
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    return items.flatMap((item) => {
+      const user = usersById.get(item.userId);
+      if (!user) return [];
+
+      return [{
+        id: String(item._id),
+        userId: item.userId,
+        email: user.email,
+        name: user.name,
+        symbol: item.symbol,
+        company: item.company,
+        alertName: item.alertName,
+        alertType: item.alertType,
+        threshold: item.threshold,
+        averageDays: item.averageDays ?? VOLUME_ALERT_AVERAGE_DAYS,
+        cooldownMinutes: item.cooldownMinutes,
+        lastTriggeredAt: item.lastTriggeredAt ? item.lastTriggeredAt.toISOString() : null,
+      }];
+    });
+  } catch (err) {
+    console.error('getActiveAlertsForEvaluation error:', err);
+    return [];
+  }
+}
+
+export async function markAlertTriggered(alertId: string, price: number, triggeredAt: Date = new Date()) {
+  try {
+    await connectToDatabase();
+    await Alert.updateOne({ _id: alertId }, { lastTriggeredAt: triggeredAt, lastTriggeredPrice: price });
+    return { success: true };
+  } catch (err) {
+    console.error('markAlertTriggered error:', err);
+    return { success: false, error: 'Failed to record alert trigger' };
+  }
+}
@@ -33,6 +33,15 @@ import { inngest } from "@/lib/inngest/client";
 // Es asíncrona porque Next.js puede estar ejecutando en Edge o servidor
 import { headers } from "next/headers";
 
+// APIError: error tipado de Better Auth; body.code identifica el motivo (ej: EMAIL_NOT_VERIFIED)
+import { APIError } from "better-auth/api";
+
+// Validación y guardado del perfil de inversión (país, objetivos, riesgo, industria)
+import { parseInvestmentProfile, saveUserProfile } from "@/lib/profile/profiles";
+
+// Registro de intentos de inicio de sesión (éxitos y fallos) por email
+import { recordSignInAttempt } from "@/lib/security/signInAttempts";
+
 // ============================================
 // SERVER ACTION: signUpWithEmail
 // ============================================
@@ -95,7 +104,7 @@ export const signUpWithEmail = async ({
         //
         // NOTA: Solo pasamos email, password y name a Better Auth
         // Los otros campos (country, investmentGoals, etc.) NO son estándar de Better Auth
-        // Los manejaremos con Inngest event para guardarlos en otra tabla
+        // Se guardan en la colección 'userprofiles' (ver saveUserProfile más abajo)
         const response = await auth.api.signUpEmail({ 
             body: { 
                 email, 
@@ -111,6 +120,18 @@ export const signUpWithEmail = async ({
         // Solo si Better Auth retornó una respuesta (usuario creado)
         // disparamos el evento de Inngest
         if (response) {
+            // ============================================
+            // PERFIL DE INVERSIÓN
+            // ============================================
+            // Se guarda antes del evento para que noticias, alertas y prompts de IA lo encuentren
+            // Si falla, la cuenta ya existe: se registra el error y el usuario puede
+            // completarlo después en /settings/profile
+            const profile = parseInvestmentProfile({ country, investmentGoals, riskTolerance, preferredIndustry });
+            if (!('error' in profile)) {
+                await saveUserProfile(response.user.id, profile.value)
+                    .catch((e) => console.error('Saving investment profile failed', e));
+            }
+
             // ============================================
             // INNGEST EVENT: app/user.created
             // ============================================
@@ -156,7 +177,9 @@ export const signUpWithEmail = async ({
                 // - investmentGoals: recomendar stocks iniciales según objetivos
                 // - riskTolerance: sugerir estrategias de inversión adecuadas
                 // - preferredIndustry: popular watchlist con stocks de esa industria
+                // - userId: respetar sus preferencias de email y firmar el link de baja
                 data: { 
+                    userId: response.user.id,
                     email, 
                     name: fullName, 
                     country, 
@@ -182,7 +205,10 @@ export const signUpWithEmail = async ({
         // - Mostrar mensaje de éxito
         // - Redirigir al usuario a /dashboard
         // - Actualizar estado de autenticación
-        return { success: true, data: response }
+        //
+        // requiresVerification: con REQUIRE_EMAIL_VERIFICATION=true Better Auth no crea
+        // sesión (token null) hasta que el usuario abre el link del email
+        return { success: true, data: response, requiresVerification: !response.token }
         
     } catch (e) {
         // ============================================
@@ -228,8 +254,13 @@ export const signUpWithEmail = async ({
 //
 // RETORNA:
 // - { success: true, data: response } si el login fue exitoso
+// - { success: true, twoFactorRequired: true } si falta el segundo paso (2FA)
 // - { success: false, error: string } si falló
 export const signInWithEmail = async ({ email, password }: SignInFormData) => {
+    // Headers de la petición: cookies para Better Auth, IP y user agent para el
+    // registro de intentos que se ve en /settings/security
+    const requestHeaders = await headers()
+
     try {
         // ============================================
         // AUTENTICACIÓN CON BETTER AUTH
@@ -251,13 +282,25 @@ export const signInWithEmail = async ({ email, password }: SignInFormData) => {
         //
         // PARÁMETROS:
         // - body: objeto con email y password
+        // - headers: cookies del navegador; el plugin de 2FA las lee para saber
+        //   si este dispositivo fue marcado como confiable
         const response = await auth.api.signInEmail({ 
             body: { 
                 email, 
                 password 
-            } 
+            },
+            headers: requestHeaders
         })
 
+        // Con 2FA activo no se crea sesión todavía: Better Auth deja una cookie
+        // temporal y el usuario debe completar el código en /two-factor
+        if ('twoFactorRedirect' in response) {
+            await recordSignInAttempt({ email, outcome: 'two_factor' }, requestHeaders)
+            return { success: true, twoFactorRequired: true }
+        }
+
+        await recordSignInAttempt({ email, outcome: 'success', userId: response.user.id }, requestHeaders)
+
         // ============================================
         // RETORNO EXITOSO
         // ============================================
@@ -285,6 +328,17 @@ export const signInWithEmail = async ({ email, password }: SignInFormData) => {
         //
         // Log del error en el servidor (para debugging)
         console.log('Sign in failed', e)
+
+        await recordSignInAttempt(
+            { email, outcome: 'failed', reason: e instanceof APIError ? e.body?.code : undefined },
+            requestHeaders
+        )
+
+        // Excepción: la contraseña era correcta pero falta verificar el email
+        // (Better Auth ya reenvió el link gracias a sendOnSignIn)
+        if (e instanceof APIError && e.body?.code === 'EMAIL_NOT_VERIFIED') {
+            return { success: false, error: 'Please verify your email first. We just sent you a new link.' }
+        }
         
         // Retorna error genérico
         // SEGURIDAD: NO especificamos si el email existe o si la password es incorrecta
@@ -366,6 +420,69 @@ export const signOut = async () => {
     }
 }
 
+// ============================================
+// SERVER ACTION: requestPasswordReset
+// ============================================
+// Envía el email con el link para restablecer la contraseña
+// Siempre responde success: así no se revela si el email tiene cuenta
+export const requestPasswordReset = async ({ email }: ForgotPasswordFormData) => {
+    try {
+        await auth.api.requestPasswordReset({
+            body: { email: email.trim().toLowerCase() }
+        })
+    } catch (e) {
+        console.log('Password reset request failed', e)
+    }
+
+    return { success: true }
+}
+
+// ============================================
+// SERVER ACTION: resetPassword
+// ============================================
+// Guarda la nueva contraseña usando el token del link del email
+// Tokens vencidos o ya usados devuelven un error que la página muestra
+export const resetPassword = async ({ token, password }: ResetPasswordFormData) => {
+    if (!token) return { success: false, error: 'This reset link is invalid. Request a new one.' }
+
+    try {
+        await auth.api.resetPassword({
+            body: { token, newPassword: password }
+        })
+
+        return { success: true }
+    } catch (e) {
+        console.log('Password reset failed', e)
+
+        if (e instanceof APIError && e.body?.code === 'INVALID_TOKEN') {
+            return { success: false, error: 'This reset link has expired or was already used. Request a new one.' }
+        }
+        return { success: false, error: 'Password reset failed' }
+    }
+}
+
+// ============================================
+// SERVER ACTION: verifyEmail
+// ============================================
+// Marca el email como verificado con el token del link de verificación
+// La llama el botón de /verify-email (no la carga de la página, para que los
+// escáneres de enlaces de los clientes de correo no consuman el token)
+export const verifyEmail = async (token: string) => {
+    if (!token) return { success: false, error: 'This verification link is invalid.' }
+
+    try {
+        await auth.api.verifyEmail({
+            query: { token }
+        })
+
+        return { success: true }
+    } catch (e) {
+        console.log('Email verification failed', e)
+
+        return { success: false, error: 'This verification link has expired or is invalid. Sign in to get a new one.' }
+    }
+}
+
 // ============================================
 // FLUJO DE TRABAJO COMPLETO: REGISTRO DE USUARIO
 // ============================================
@@ -0,0 +1,21 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { auth } from '@/lib/better-auth/auth';
+import { EMAIL_LOG_PAGE_SIZE, EMAIL_LOG_STATUS_OPTIONS } from '@/lib/constants';
+import { searchEmailLogs } from '@/lib/notifications/emailLog';
+import { isAdminUser } from '@/lib/security/admin';
+
+// null means the caller isn't an admin, so the page can 404 instead of revealing the log exists
+export async function getEmailLog({ query, status }: { query?: string; status?: string }): Promise<EmailLogEntry[] | null> {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!isAdminUser(session?.user)) return null;
+
+  try {
+    const knownStatus = EMAIL_LOG_STATUS_OPTIONS.find((option) => option.value === status)?.value;
+    return await searchEmailLogs({ query, status: knownStatus, limit: EMAIL_LOG_PAGE_SIZE });
+  } catch (err) {
+    console.error('getEmailLog error:', err);
+    return [];
+  }
+}
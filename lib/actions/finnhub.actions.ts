@@ -1,34 +1,15 @@
 'use server';
 
 import { getDateRange, validateArticle, formatArticle } from '@/lib/utils';
-import { POPULAR_STOCK_SYMBOLS } from '@/lib/constants';
+import { POPULAR_STOCK_SYMBOLS, SEARCH_PAGE_SIZE, SYMBOL_INDEX_MAX_RESULTS, US_MARKET_TIMEZONE } from '@/lib/constants';
+import { getLocalDateTime } from '@/lib/notifications/preferences';
+import { getMarketDataProvider, getSymbolIndex } from '@/lib/market-data';
 import { cache } from 'react';
 
-const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
-const NEXT_PUBLIC_FINNHUB_API_KEY = process.env.NEXT_PUBLIC_FINNHUB_API_KEY ?? '';
-
-async function fetchJSON<T>(url: string, revalidateSeconds?: number): Promise<T> {
-  const options: RequestInit & { next?: { revalidate?: number } } = revalidateSeconds
-    ? { cache: 'force-cache', next: { revalidate: revalidateSeconds } }
-    : { cache: 'no-store' };
-
-  const res = await fetch(url, options);
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`Fetch failed ${res.status}: ${text}`);
-  }
-  return (await res.json()) as T;
-}
-
-export { fetchJSON };
-
 export async function getNews(symbols?: string[]): Promise<MarketNewsArticle[]> {
   try {
     const range = getDateRange(5);
-    const token = process.env.FINNHUB_API_KEY ?? NEXT_PUBLIC_FINNHUB_API_KEY;
-    if (!token) {
-      throw new Error('FINNHUB API key is not configured');
-    }
+    const provider = getMarketDataProvider();
     const cleanSymbols = (symbols || [])
       .map((s) => s?.trim().toUpperCase())
       .filter((s): s is string => Boolean(s));
@@ -42,8 +23,7 @@ export async function getNews(symbols?: string[]): Promise<MarketNewsArticle[]>
       await Promise.all(
         cleanSymbols.map(async (sym) => {
           try {
-            const url = `${FINNHUB_BASE_URL}/company-news?symbol=${encodeURIComponent(sym)}&from=${range.from}&to=${range.to}&token=${token}`;
-            const articles = await fetchJSON<RawNewsArticle[]>(url, 300);
+            const articles = await provider.companyNews(sym, range);
             perSymbolArticles[sym] = (articles || []).filter(validateArticle);
           } catch (e) {
             console.error('Error fetching company news for', sym, e);
@@ -76,8 +56,7 @@ export async function getNews(symbols?: string[]): Promise<MarketNewsArticle[]>
     }
 
     // General market news fallback or when no symbols provided
-    const generalUrl = `${FINNHUB_BASE_URL}/news?category=general&token=${token}`;
-    const general = await fetchJSON<RawNewsArticle[]>(generalUrl, 300);
+    const general = await provider.generalNews('general');
 
     const seen = new Set<string>();
     const unique: RawNewsArticle[] = [];
@@ -98,15 +77,40 @@ export async function getNews(symbols?: string[]): Promise<MarketNewsArticle[]>
   }
 }
 
-export const searchStocks = cache(async (query?: string): Promise<StockWithWatchlistStatus[]> => {
+// The local symbol index answers without a network round trip, and keeps answering when
+// Finnhub is down. A fuzzy local hit can hide a listing outside the mirrored exchanges, so
+// unless some local ticker equals or starts with the query, Finnhub's /search is asked too
+// and merged in, with its exact ticker match on top.
+const findSymbols = async (query: string, limit: number): Promise<FinnhubSearchResult[]> => {
+  const index = await getSymbolIndex();
+  if (!index) return getMarketDataProvider().search(query);
+
+  const local = index.search(query, limit);
+  const ticker = query.trim().replace(/\s+/g, '').toUpperCase();
+  const matchesTicker = (result: FinnhubSearchResult) =>
+    [result.symbol, result.displaySymbol].some((symbol) => symbol?.toUpperCase().startsWith(ticker));
+  if (local.some(matchesTicker)) return local;
+
+  let remote: FinnhubSearchResult[];
   try {
-    const token = process.env.FINNHUB_API_KEY ?? NEXT_PUBLIC_FINNHUB_API_KEY;
-    if (!token) {
-      // If no token, log and return empty to avoid throwing per requirements
-      console.error('Error in stock search:', new Error('FINNHUB API key is not configured'));
-      return [];
-    }
+    remote = await getMarketDataProvider().search(query);
+  } catch (err) {
+    if (local.length === 0) throw err;
+    console.error('findSymbols: Finnhub search failed, using local results', err);
+    return local;
+  }
 
+  const exact = remote.filter((result) => result.symbol.toUpperCase() === ticker);
+  const merged = new Map<string, FinnhubSearchResult>();
+  for (const result of [...exact, ...local, ...remote]) {
+    if (!merged.has(result.symbol)) merged.set(result.symbol, result);
+  }
+  return [...merged.values()].slice(0, limit);
+};
+
+export const searchStocks = cache(async (query?: string): Promise<StockWithWatchlistStatus[]> => {
+  try {
+    const provider = getMarketDataProvider();
     const trimmed = typeof query === 'string' ? query.trim() : '';
 
     let results: FinnhubSearchResult[] = [];
@@ -117,13 +121,10 @@ export const searchStocks = cache(async (query?: string): Promise<StockWithWatch
       const profiles = await Promise.all(
         top.map(async (sym) => {
           try {
-            const url = `${FINNHUB_BASE_URL}/stock/profile2?symbol=${encodeURIComponent(sym)}&token=${token}`;
-            // Revalidate every hour
-            const profile = await fetchJSON<any>(url, 3600);
-            return { sym, profile } as { sym: string; profile: any };
+            return { sym, profile: await provider.profile(sym) };
           } catch (e) {
             console.error('Error fetching profile2 for', sym, e);
-            return { sym, profile: null } as { sym: string; profile: any };
+            return { sym, profile: null };
           }
         })
       );
@@ -148,9 +149,7 @@ export const searchStocks = cache(async (query?: string): Promise<StockWithWatch
         })
         .filter((x): x is FinnhubSearchResult => Boolean(x));
     } else {
-      const url = `${FINNHUB_BASE_URL}/search?q=${encodeURIComponent(trimmed)}&token=${token}`;
-      const data = await fetchJSON<FinnhubSearchResponse>(url, 1800);
-      results = Array.isArray(data?.result) ? data.result : [];
+      results = await findSymbols(trimmed, 15);
     }
 
     const mapped: StockWithWatchlistStatus[] = results
@@ -178,3 +177,168 @@ export const searchStocks = cache(async (query?: string): Promise<StockWithWatch
     return [];
   }
 });
+
+// Finnhub marks non-US listings with a suffix ("SHOP.TO", "VOD.L"); bare symbols are US
+const exchangeFromDisplaySymbol = (displaySymbol?: string) => {
+  const suffix = displaySymbol?.split('.').slice(1).pop();
+  return suffix ? suffix.toUpperCase() : 'US';
+};
+
+export async function searchStocksPaged(params: StockSearchParams): Promise<StockSearchPage> {
+  const query = params.query?.trim() ?? '';
+  const pageSize = SEARCH_PAGE_SIZE;
+  const empty: StockSearchPage = { query, results: [], total: 0, page: 1, pageSize, totalPages: 0, exchanges: [], types: [] };
+  if (!query) return empty;
+
+  try {
+    const results = await findSymbols(query, SYMBOL_INDEX_MAX_RESULTS);
+
+    const all: StockWithWatchlistStatus[] = results.map((r) => {
+      const symbol = (r.symbol || '').toUpperCase();
+      return {
+        symbol,
+        name: r.description || symbol,
+        exchange: exchangeFromDisplaySymbol(r.displaySymbol || r.symbol),
+        type: r.type || 'Stock',
+        isInWatchlist: false,
+      };
+    });
+
+    // Filter options come from the unfiltered set so picking one never hides the others
+    const exchanges = [...new Set(all.map((s) => s.exchange))].sort();
+    const types = [...new Set(all.map((s) => s.type))].sort();
+
+    const filtered = all.filter(
+      (s) => (!params.exchange || s.exchange === params.exchange) && (!params.type || s.type === params.type)
+    );
+    const totalPages = Math.ceil(filtered.length / pageSize);
+    const page = Math.min(Math.max(1, Math.floor(params.page ?? 1) || 1), Math.max(totalPages, 1));
+
+    return {
+      query,
+      results: filtered.slice((page - 1) * pageSize, page * pageSize),
+      total: filtered.length,
+      page,
+      pageSize,
+      totalPages,
+      exchanges,
+      types,
+    };
+  } catch (err) {
+    console.error('searchStocksPaged error:', err);
+    return empty;
+  }
+}
+
+export async function getStockSnapshot(symbol: string): Promise<{
+  quote: QuoteData | null;
+  profile: ProfileData | null;
+  financials: FinancialsData | null;
+}> {
+  const provider = getMarketDataProvider();
+
+  // Each endpoint fails independently so one missing dataset doesn't blank the whole row
+  const [quote, profile, financials] = await Promise.all([
+    provider.quote(symbol).catch((e) => {
+      console.error('Error fetching quote for', symbol, e);
+      return null;
+    }),
+    provider.profile(symbol).catch((e) => {
+      console.error('Error fetching profile2 for', symbol, e);
+      return null;
+    }),
+    provider.metrics(symbol).catch((e) => {
+      console.error('Error fetching metrics for', symbol, e);
+      return null;
+    }),
+  ]);
+
+  return { quote, profile, financials };
+}
+
+export async function getQuotes(symbols: string[]): Promise<Record<string, QuoteData>> {
+  const provider = getMarketDataProvider();
+  const unique = [...new Set(symbols.map((s) => s?.trim().toUpperCase()).filter((s): s is string => Boolean(s)))];
+  const quotes: Record<string, QuoteData> = {};
+
+  // The provider's client paces these under the per-minute cap
+  await Promise.all(
+    unique.map(async (sym) => {
+      try {
+        const quote = await provider.quote(sym, { fresh: true });
+        if (quote) quotes[sym] = quote;
+      } catch (e) {
+        console.error('Error fetching quote for', sym, e);
+      }
+    })
+  );
+
+  return quotes;
+}
+
+export async function getVolumeStats(
+  symbol: string,
+  averageDays: number
+): Promise<{ currentVolume: number; averageVolume: number } | null> {
+  try {
+    // Pad the calendar window so weekends and holidays still leave enough trading sessions
+    const to = Math.floor(Date.now() / 1000);
+    const from = to - (averageDays * 2 + 10) * 24 * 60 * 60;
+    const { timestamps, volume: volumes } = await getMarketDataProvider().candles(symbol, 'D', from, to);
+    if (volumes.length < 2) return null;
+
+    // Before the open, on weekends and on holidays the latest candle is an earlier session's,
+    // and comparing it again would re-send the same spike every time the cooldown ends.
+    // Daily candles are stamped on their session's date in UTC.
+    const lastSession = new Date(timestamps[timestamps.length - 1] * 1000).toISOString().slice(0, 10);
+    if (lastSession !== getLocalDateTime(US_MARKET_TIMEZONE).date) return null;
+
+    // The latest candle is the current session; the N before it form the rolling average
+    const currentVolume = volumes[volumes.length - 1];
+    const history = volumes.slice(-(averageDays + 1), -1);
+    const averageVolume = history.reduce((sum, v) => sum + v, 0) / history.length;
+    if (!averageVolume) return null;
+
+    return { currentVolume, averageVolume };
+  } catch (e) {
+    console.error('Error fetching candles for', symbol, e);
+    return null;
+  }
+}
+
+// Current price against the last daily close on or before `since`, for "while you were away" summaries
+export async function getPriceChangesSince(
+  symbols: string[],
+  since: Date
+): Promise<Record<string, { price: number; changePercent: number }>> {
+  const provider = getMarketDataProvider();
+  const quotes = await getQuotes(symbols);
+  const sinceSeconds = Math.floor(since.getTime() / 1000);
+  const changes: Record<string, { price: number; changePercent: number }> = {};
+
+  await Promise.all(
+    Object.entries(quotes).map(async ([sym, quote]) => {
+      const price = quote.c;
+      if (!price) return;
+
+      try {
+        // Start a few days early so an absence that began on a weekend still has a prior close
+        const { timestamps, close } = await provider.candles(
+          sym,
+          'D',
+          sinceSeconds - 5 * 24 * 60 * 60,
+          Math.floor(Date.now() / 1000)
+        );
+        const index = timestamps.findLastIndex((timestamp) => timestamp <= sinceSeconds);
+        const base = close[Math.max(index, 0)];
+        if (!base) return;
+
+        changes[sym] = { price, changePercent: ((price - base) / base) * 100 };
+      } catch (e) {
+        console.error('Error fetching candles for', sym, e);
+      }
+    })
+  );
+
+  return changes;
+}
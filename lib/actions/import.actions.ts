@@ -0,0 +1,236 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { Types } from 'mongoose';
+import { connectToDatabase } from '@/database/mongoose';
+import { ImportMapping } from '@/database/models/importMapping.model';
+import { JournalEntry } from '@/database/models/journal.model';
+import { Transaction } from '@/database/models/transaction.model';
+import { getSessionUser } from '@/lib/better-auth/session';
+import { MAX_IMPORT_ROWS } from '@/lib/constants';
+import { IMPORT_FIELDS } from '@/lib/import/presets';
+import { journalEntryKey, toJournalEntryFormData, toRecord, toTransactionFormData, transactionKey } from '@/lib/import/rows';
+import { parseJournalEntryData } from '@/lib/journal/entries';
+import { parseTransactionData } from '@/lib/portfolio/transactions';
+import { formatPrice } from '@/lib/utils';
+
+type TransactionValue = Extract<ReturnType<typeof parseTransactionData>, { value: unknown }>['value'];
+type JournalEntryValue = Extract<ReturnType<typeof parseJournalEntryData>, { value: unknown }>['value'];
+
+type EvaluatedRow<T> = ImportPreviewRow & { value?: T };
+
+const validateRequest = (request: ImportRequest) => {
+  if (!IMPORT_FIELDS[request.target]) return 'Invalid import target';
+  if (request.rows.length === 0) return 'The file has no data rows';
+  if (request.rows.length > MAX_IMPORT_ROWS) return `Imports are limited to ${MAX_IMPORT_ROWS} rows per file`;
+
+  const missing = IMPORT_FIELDS[request.target].filter((field) => field.required && !request.columns[field.key]);
+  if (missing.length) return `Map a column for: ${missing.map((field) => field.label).join(', ')}`;
+  return null;
+};
+
+const describeDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Rows are flagged against what is already stored; within-file repeats are kept since
+// brokers legitimately report identical fills
+const evaluateTransactions = async (userId: string, request: ImportRequest) => {
+  const rows: EvaluatedRow<TransactionValue>[] = request.rows.map((cells, index) => {
+    const line = index + 2;
+    const data = toTransactionFormData(toRecord(request.headers, cells), request.columns);
+    if ('error' in data) return { line, status: 'error', error: data.error, summary: cells.join(', ') };
+
+    const parsed = parseTransactionData(data);
+    if ('error' in parsed) return { line, status: 'error', error: parsed.error, summary: cells.join(', ') };
+
+    const tx = parsed.value;
+    const detail = tx.type === 'buy' || tx.type === 'sell' ? `${tx.quantity} @ ${formatPrice(tx.price)}` : formatPrice(tx.amount);
+    return {
+      line,
+      status: 'valid',
+      summary: `${describeDate(tx.executedAt)} ${tx.type} ${tx.symbol ?? ''} ${tx.type === 'split' ? `${tx.splitRatio}-for-1` : detail}`,
+      value: tx,
+    };
+  });
+
+  const dates = rows.flatMap((row) => (row.value ? [row.value.executedAt.getTime()] : []));
+  if (dates.length === 0) return rows;
+
+  const existing = await Transaction.find({
+    userId,
+    executedAt: { $gte: new Date(Math.min(...dates)), $lte: new Date(Math.max(...dates)) },
+  }).lean();
+  const existingKeys = new Set(existing.map(transactionKey));
+
+  return rows.map((row) =>
+    row.value && existingKeys.has(transactionKey(row.value)) ? { ...row, status: 'duplicate' as const } : row
+  );
+};
+
+const evaluateJournalEntries = async (userId: string, request: ImportRequest) => {
+  const rows: EvaluatedRow<JournalEntryValue>[] = request.rows.map((cells, index) => {
+    const line = index + 2;
+    const data = toJournalEntryFormData(toRecord(request.headers, cells), request.columns);
+    if ('error' in data) return { line, status: 'error', error: data.error, summary: cells.join(', ') };
+
+    const parsed = parseJournalEntryData(data);
+    if ('error' in parsed) return { line, status: 'error', error: parsed.error, summary: cells.join(', ') };
+
+    const entry = parsed.value;
+    return {
+      line,
+      status: 'valid',
+      summary: `${describeDate(entry.entryAt)} ${entry.side} ${entry.quantity} ${entry.symbol} @ ${formatPrice(entry.entryPrice)}${
+        entry.exitPrice !== null ? ` → ${formatPrice(entry.exitPrice)}` : ''
+      }`,
+      value: entry,
+    };
+  });
+
+  const dates = rows.flatMap((row) => (row.value ? [row.value.entryAt.getTime()] : []));
+  if (dates.length === 0) return rows;
+
+  const existing = await JournalEntry.find({
+    userId,
+    entryAt: { $gte: new Date(Math.min(...dates)), $lte: new Date(Math.max(...dates)) },
+  }).lean();
+  const existingKeys = new Set(existing.map(journalEntryKey));
+
+  return rows.map((row) =>
+    row.value && existingKeys.has(journalEntryKey(row.value)) ? { ...row, status: 'duplicate' as const } : row
+  );
+};
+
+const toPreview = (rows: EvaluatedRow<unknown>[]): ImportPreview => ({
+  rows: rows.map(({ line, status, error, summary }) => ({ line, status, error, summary })),
+  validCount: rows.filter((row) => row.status === 'valid').length,
+  errorCount: rows.filter((row) => row.status === 'error').length,
+  duplicateCount: rows.filter((row) => row.status === 'duplicate').length,
+});
+
+export async function previewImport(request: ImportRequest) {
+  const invalid = validateRequest(request);
+  if (invalid) return { success: false, error: invalid };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to import data' };
+
+    await connectToDatabase();
+    const rows =
+      request.target === 'journal'
+        ? await evaluateJournalEntries(user.id, request)
+        : await evaluateTransactions(user.id, request);
+
+    return { success: true, preview: toPreview(rows) };
+  } catch (err) {
+    console.error('previewImport error:', err);
+    return { success: false, error: 'Failed to preview import' };
+  }
+}
+
+// Re-validates on the server instead of trusting the preview the client saw
+export async function commitImport(request: ImportRequest) {
+  const invalid = validateRequest(request);
+  if (invalid) return { success: false, error: invalid };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to import data' };
+
+    await connectToDatabase();
+
+    let imported = 0;
+    let skipped = 0;
+    if (request.target === 'journal') {
+      const rows = await evaluateJournalEntries(user.id, request);
+      const values = rows.flatMap((row) => (row.status === 'valid' && row.value ? [row.value] : []));
+      if (values.length) await JournalEntry.insertMany(values.map((value) => ({ userId: user.id, ...value })));
+      imported = values.length;
+      skipped = rows.length - values.length;
+      revalidatePath('/journal');
+    } else {
+      const rows = await evaluateTransactions(user.id, request);
+      const values = rows.flatMap((row) => (row.status === 'valid' && row.value ? [row.value] : []));
+      if (values.length) await Transaction.insertMany(values.map((value) => ({ userId: user.id, ...value })));
+      imported = values.length;
+      skipped = rows.length - values.length;
+      revalidatePath('/portfolio');
+    }
+
+    return { success: true, imported, skipped };
+  } catch (err) {
+    console.error('commitImport error:', err);
+    return { success: false, error: 'Failed to import rows' };
+  }
+}
+
+export async function getImportMappings(): Promise<SavedImportMapping[]> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return [];
+
+    await connectToDatabase();
+    const items = await ImportMapping.find({ userId: user.id }).sort({ name: 1 }).lean();
+
+    // lean() hands Map fields back as plain objects
+    return items.map((item) => ({
+      id: String(item._id),
+      name: item.name,
+      target: item.target,
+      columns: Object.fromEntries(
+        Object.entries((item.columns ?? {}) as unknown as Record<string, string>).filter(([, header]) => header)
+      ),
+    }));
+  } catch (err) {
+    console.error('getImportMappings error:', err);
+    return [];
+  }
+}
+
+export async function saveImportMapping(data: { name: string; target: ImportTarget; columns: ImportColumnMapping }) {
+  const name = data.name?.trim();
+  if (!name) return { success: false, error: 'Mapping name is required' };
+  if (!IMPORT_FIELDS[data.target]) return { success: false, error: 'Invalid import target' };
+
+  const allowedKeys = new Set(IMPORT_FIELDS[data.target].map((field) => field.key));
+  const columns = Object.fromEntries(
+    Object.entries(data.columns ?? {}).filter(([key, header]) => allowedKeys.has(key) && header)
+  );
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to save mappings' };
+
+    await connectToDatabase();
+    const mapping = await ImportMapping.findOneAndUpdate(
+      { userId: user.id, name, target: data.target },
+      { columns },
+      { upsert: true, new: true }
+    );
+
+    revalidatePath('/import');
+    return { success: true, id: String(mapping._id) };
+  } catch (err) {
+    console.error('saveImportMapping error:', err);
+    return { success: false, error: 'Failed to save mapping' };
+  }
+}
+
+export async function deleteImportMapping(mappingId: string) {
+  if (!Types.ObjectId.isValid(mappingId)) return { success: false, error: 'Mapping not found' };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage mappings' };
+
+    await connectToDatabase();
+    const result = await ImportMapping.deleteOne({ _id: mappingId, userId: user.id });
+    if (result.deletedCount === 0) return { success: false, error: 'Mapping not found' };
+
+    revalidatePath('/import');
+    return { success: true };
+  } catch (err) {
+    console.error('deleteImportMapping error:', err);
+    return { success: false, error: 'Failed to delete mapping' };
+  }
+}
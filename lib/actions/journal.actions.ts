@@ -0,0 +1,165 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { Types } from 'mongoose';
+import { connectToDatabase } from '@/database/mongoose';
+import { JournalEntry, type JournalEntryItem } from '@/database/models/journal.model';
+import { getSessionUser } from '@/lib/better-auth/session';
+import { calculateTradePnl, calculateTradeRMultiple } from '@/lib/utils';
+import { parseJournalEntryData } from '@/lib/journal/entries';
+import { computeJournalStats } from '@/lib/journal/stats';
+import { getNotificationPreferences } from '@/lib/notifications/preferences';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/constants';
+
+type JournalEntryRecord = Pick<
+  JournalEntryItem,
+  | 'symbol' | 'side' | 'entryPrice' | 'exitPrice' | 'stopPrice' | 'entryAt' | 'exitAt' | 'quantity' | 'fees'
+  | 'strategy' | 'thesis' | 'emotions' | 'lessons' | 'notes'
+> & { _id: unknown };
+
+const toJournalEntry = (doc: JournalEntryRecord): JournalEntryData => {
+  const pnl = calculateTradePnl({
+    side: doc.side,
+    entryPrice: doc.entryPrice,
+    exitPrice: doc.exitPrice ?? null,
+    quantity: doc.quantity,
+    fees: doc.fees ?? 0,
+  });
+
+  return {
+    id: String(doc._id),
+    symbol: doc.symbol,
+    side: doc.side,
+    entryPrice: doc.entryPrice,
+    exitPrice: doc.exitPrice ?? null,
+    stopPrice: doc.stopPrice ?? null,
+    entryAt: new Date(doc.entryAt).toISOString(),
+    exitAt: doc.exitAt ? new Date(doc.exitAt).toISOString() : null,
+    quantity: doc.quantity,
+    fees: doc.fees ?? 0,
+    strategy: doc.strategy ?? '',
+    thesis: doc.thesis ?? '',
+    emotions: doc.emotions ?? '',
+    lessons: doc.lessons ?? '',
+    notes: doc.notes ?? '',
+    pnl,
+    rMultiple: calculateTradeRMultiple({
+      entryPrice: doc.entryPrice,
+      stopPrice: doc.stopPrice ?? null,
+      quantity: doc.quantity,
+      pnl,
+    }),
+  };
+};
+
+const revalidateJournalPaths = (symbol: string) => {
+  revalidatePath('/journal');
+  revalidatePath(`/stocks/${symbol}`);
+};
+
+export async function getJournalEntries(filters: { symbol?: string } = {}): Promise<JournalEntryData[]> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return [];
+
+    await connectToDatabase();
+    const query: Record<string, unknown> = { userId: user.id };
+    const symbol = filters.symbol?.trim().toUpperCase();
+    if (symbol) query.symbol = symbol;
+
+    const items = await JournalEntry.find(query).sort({ entryAt: -1 }).lean();
+    return items.map(toJournalEntry);
+  } catch (err) {
+    console.error('getJournalEntries error:', err);
+    return [];
+  }
+}
+
+export async function getJournalEntry(entryId: string): Promise<JournalEntryData | null> {
+  if (!Types.ObjectId.isValid(entryId)) return null;
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return null;
+
+    await connectToDatabase();
+    const item = await JournalEntry.findOne({ _id: entryId, userId: user.id }).lean();
+    return item ? toJournalEntry(item) : null;
+  } catch (err) {
+    console.error('getJournalEntry error:', err);
+    return null;
+  }
+}
+
+export async function createJournalEntry(data: JournalEntryFormData) {
+  const parsed = parseJournalEntryData(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your journal' };
+
+    await connectToDatabase();
+    const entry = await JournalEntry.create({ userId: user.id, ...parsed.value });
+
+    revalidateJournalPaths(parsed.value.symbol);
+    return { success: true, id: String(entry._id) };
+  } catch (err) {
+    console.error('createJournalEntry error:', err);
+    return { success: false, error: 'Failed to create journal entry' };
+  }
+}
+
+export async function updateJournalEntry(entryId: string, data: JournalEntryFormData) {
+  const parsed = parseJournalEntryData(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your journal' };
+
+    await connectToDatabase();
+    // The previous version tells us which stock page the entry is leaving when its symbol changes
+    const previous = await JournalEntry.findOneAndUpdate({ _id: entryId, userId: user.id }, parsed.value);
+    if (!previous) return { success: false, error: 'Journal entry not found' };
+
+    revalidateJournalPaths(parsed.value.symbol);
+    if (previous.symbol !== parsed.value.symbol) revalidatePath(`/stocks/${previous.symbol}`);
+    return { success: true, id: String(previous._id) };
+  } catch (err) {
+    console.error('updateJournalEntry error:', err);
+    return { success: false, error: 'Failed to update journal entry' };
+  }
+}
+
+export async function deleteJournalEntry(entryId: string) {
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your journal' };
+
+    await connectToDatabase();
+    const deleted = await JournalEntry.findOneAndDelete({ _id: entryId, userId: user.id });
+    if (!deleted) return { success: false, error: 'Journal entry not found' };
+
+    revalidateJournalPaths(deleted.symbol);
+    return { success: true };
+  } catch (err) {
+    console.error('deleteJournalEntry error:', err);
+    return { success: false, error: 'Failed to delete journal entry' };
+  }
+}
+
+// Weekday and hour use the timezone saved in notification settings, the user's one stored timezone
+export async function getJournalStats(): Promise<JournalStats> {
+  const entries = await getJournalEntries();
+
+  let timezone = DEFAULT_NOTIFICATION_PREFERENCES.timezone;
+  try {
+    const user = await getSessionUser();
+    if (user) timezone = (await getNotificationPreferences(user.id)).preferences.timezone;
+  } catch (err) {
+    console.error('getJournalStats error:', err);
+  }
+
+  return computeJournalStats(entries, timezone);
+}
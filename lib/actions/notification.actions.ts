@@ -0,0 +1,56 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getSessionUser } from '@/lib/better-auth/session';
+import {
+  getNotificationPreferences,
+  parseNotificationPreferences,
+  saveNotificationPreferences,
+  unsubscribeFromCategory,
+} from '@/lib/notifications/preferences';
+import { verifyUnsubscribeToken } from '@/lib/notifications/unsubscribe';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/constants';
+
+export async function getCurrentNotificationPreferences(): Promise<NotificationPreferencesFormProps> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return { preferences: DEFAULT_NOTIFICATION_PREFERENCES, saved: false };
+
+    return await getNotificationPreferences(user.id);
+  } catch (err) {
+    console.error('getCurrentNotificationPreferences error:', err);
+    return { preferences: DEFAULT_NOTIFICATION_PREFERENCES, saved: false };
+  }
+}
+
+export async function updateCurrentNotificationPreferences(data: NotificationPreferences) {
+  const parsed = parseNotificationPreferences(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to update your notifications' };
+
+    await saveNotificationPreferences(user.id, parsed.value);
+
+    revalidatePath('/settings/notifications');
+    return { success: true };
+  } catch (err) {
+    console.error('updateCurrentNotificationPreferences error:', err);
+    return { success: false, error: 'Failed to update notifications' };
+  }
+}
+
+// No session needed: the signed token from the email identifies the user and category
+export async function unsubscribeWithToken(token: string) {
+  const target = verifyUnsubscribeToken(token);
+  if (!target) return { success: false, error: 'This unsubscribe link is invalid.' };
+
+  try {
+    await unsubscribeFromCategory(target.userId, target.category);
+    return { success: true };
+  } catch (err) {
+    console.error('unsubscribeWithToken error:', err);
+    return { success: false, error: 'Failed to unsubscribe. Please try again.' };
+  }
+}
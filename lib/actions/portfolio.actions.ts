@@ -0,0 +1,126 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { Types } from 'mongoose';
+import { connectToDatabase } from '@/database/mongoose';
+import { Transaction, type TransactionItem } from '@/database/models/transaction.model';
+import { getSessionUser } from '@/lib/better-auth/session';
+import { getQuotes } from '@/lib/actions/finnhub.actions';
+import { computeHoldings } from '@/lib/portfolio/holdings';
+import { parseTransactionData } from '@/lib/portfolio/transactions';
+
+const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'specific'];
+
+type TransactionRecord = Pick<
+  TransactionItem,
+  'type' | 'symbol' | 'quantity' | 'price' | 'amount' | 'fees' | 'splitRatio' | 'executedAt' | 'notes' | 'lots'
+> & { _id: unknown };
+
+const toPortfolioTransaction = (doc: TransactionRecord): PortfolioTransaction => ({
+  id: String(doc._id),
+  type: doc.type,
+  symbol: doc.symbol ?? null,
+  quantity: doc.quantity ?? 0,
+  price: doc.price ?? 0,
+  amount: doc.amount ?? 0,
+  fees: doc.fees ?? 0,
+  splitRatio: doc.splitRatio ?? null,
+  executedAt: new Date(doc.executedAt).toISOString(),
+  notes: doc.notes ?? '',
+  lots: (doc.lots ?? []).map((lot) => ({ lotId: lot.lotId, quantity: lot.quantity })),
+});
+
+export async function getTransactions(): Promise<PortfolioTransaction[]> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return [];
+
+    await connectToDatabase();
+    const items = await Transaction.find({ userId: user.id }).sort({ executedAt: -1 }).lean();
+    return items.map(toPortfolioTransaction);
+  } catch (err) {
+    console.error('getTransactions error:', err);
+    return [];
+  }
+}
+
+export async function getPortfolio(method: CostBasisMethod = 'fifo'): Promise<PortfolioSummary> {
+  const costBasisMethod = COST_BASIS_METHODS.includes(method) ? method : 'fifo';
+  const { holdings, cash, realizedPnl, dividends, fees, warnings } = computeHoldings(
+    await getTransactions(),
+    costBasisMethod
+  );
+
+  const open = holdings.filter((holding) => holding.quantity > 0);
+  const quotes = await getQuotes(open.map((holding) => holding.symbol));
+
+  // Closed positions stay in the list so their realized P&L and dividends remain visible
+  const valued: ValuedHolding[] = holdings.map((holding) => {
+    const quote = quotes[holding.symbol];
+    if (holding.quantity === 0 || !quote?.c) return holding;
+
+    const marketValue = holding.quantity * quote.c;
+    return {
+      ...holding,
+      currentPrice: quote.c,
+      changePercent: quote.dp,
+      marketValue,
+      unrealizedPnl: marketValue - holding.costBasis,
+    };
+  });
+
+  // Positions without a quote are carried at cost so totals stay meaningful
+  const marketValue = valued.reduce((total, holding) => total + (holding.marketValue ?? holding.costBasis), 0);
+  const costBasis = valued.reduce((total, holding) => total + holding.costBasis, 0);
+
+  return {
+    method: costBasisMethod,
+    cash,
+    costBasis,
+    marketValue,
+    unrealizedPnl: valued.reduce((total, holding) => total + (holding.unrealizedPnl ?? 0), 0),
+    realizedPnl,
+    dividends,
+    fees,
+    holdings: valued,
+    warnings,
+  };
+}
+
+export async function createTransaction(data: TransactionFormData) {
+  const parsed = parseTransactionData(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your portfolio' };
+
+    await connectToDatabase();
+    const transaction = await Transaction.create({ userId: user.id, ...parsed.value });
+
+    revalidatePath('/portfolio');
+    return { success: true, id: String(transaction._id) };
+  } catch (err) {
+    console.error('createTransaction error:', err);
+    return { success: false, error: 'Failed to record transaction' };
+  }
+}
+
+export async function deleteTransaction(transactionId: string) {
+  if (!Types.ObjectId.isValid(transactionId)) return { success: false, error: 'Transaction not found' };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your portfolio' };
+
+    await connectToDatabase();
+    const result = await Transaction.deleteOne({ _id: transactionId, userId: user.id });
+    if (result.deletedCount === 0) return { success: false, error: 'Transaction not found' };
+
+    revalidatePath('/portfolio');
+    return { success: true };
+  } catch (err) {
+    console.error('deleteTransaction error:', err);
+    return { success: false, error: 'Failed to delete transaction' };
+  }
+}
@@ -0,0 +1,35 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getSessionUser } from '@/lib/better-auth/session';
+import { getUserProfile, parseInvestmentProfile, saveUserProfile } from '@/lib/profile/profiles';
+
+export async function getCurrentUserProfile(): Promise<InvestmentProfile | null> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return null;
+
+    return await getUserProfile(user.id);
+  } catch (err) {
+    console.error('getCurrentUserProfile error:', err);
+    return null;
+  }
+}
+
+export async function updateCurrentUserProfile(data: InvestmentProfile) {
+  const parsed = parseInvestmentProfile(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to update your profile' };
+
+    await saveUserProfile(user.id, parsed.value);
+
+    revalidatePath('/settings/profile');
+    return { success: true };
+  } catch (err) {
+    console.error('updateCurrentUserProfile error:', err);
+    return { success: false, error: 'Failed to update profile' };
+  }
+}
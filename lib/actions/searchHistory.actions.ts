@@ -0,0 +1,154 @@
+'use server';
+
+import { Types } from 'mongoose';
+import { connectToDatabase } from '@/database/mongoose';
+import { SearchHistory, type SearchHistoryItem } from '@/database/models/searchHistory.model';
+import { Watchlist } from '@/database/models/watchlist.model';
+import { getSessionUser } from '@/lib/better-auth/session';
+import { SEARCH_HISTORY_LIMIT, SEARCH_SHORTCUTS_PER_SECTION } from '@/lib/constants';
+import { getSymbolIndex } from '@/lib/market-data';
+
+type SearchHistoryRecord = Pick<SearchHistoryItem, 'kind' | 'value' | 'label' | 'pinned' | 'lastUsedAt'> & { _id: unknown };
+
+const toSearchHistoryEntry = (doc: SearchHistoryRecord): SearchHistoryEntry => ({
+  id: String(doc._id),
+  kind: doc.kind,
+  value: doc.value,
+  label: doc.label || doc.value,
+  pinned: doc.pinned,
+  lastUsedAt: new Date(doc.lastUsedAt).toISOString(),
+});
+
+const isDuplicateKeyError = (err: unknown) =>
+  typeof err === 'object' && err !== null && (err as { code?: number }).code === 11000;
+
+const pruneHistory = async (userId: string) => {
+  const stale = await SearchHistory.find({ userId, pinned: false }, { _id: 1 })
+    .sort({ lastUsedAt: -1 })
+    .skip(SEARCH_HISTORY_LIMIT)
+    .lean();
+  if (stale.length) await SearchHistory.deleteMany({ _id: { $in: stale.map((doc) => doc._id) } });
+};
+
+// Labels only overwrite when known, so a bare page view doesn't erase the company name
+const recordHistory = async (kind: SearchHistoryKind, value: string, label?: string) => {
+  try {
+    const user = await getSessionUser();
+    if (!user) return;
+
+    await connectToDatabase();
+    await SearchHistory.updateOne(
+      { userId: user.id, kind, value },
+      label
+        ? { $set: { lastUsedAt: new Date(), label } }
+        : { $set: { lastUsedAt: new Date() }, $setOnInsert: { label: value } },
+      { upsert: true }
+    );
+    await pruneHistory(user.id);
+  } catch (err) {
+    // Two upserts racing on the same entry; the other one already recorded it
+    if (isDuplicateKeyError(err)) return;
+    console.error('recordHistory error:', err);
+  }
+};
+
+export async function recordSearch(query: string) {
+  const value = query.trim().slice(0, 100);
+  if (value) await recordHistory('query', value);
+}
+
+// Stock pages only know the ticker; the symbol index has the company name without a network call
+const lookupCompany = async (symbol: string) => {
+  try {
+    const index = await getSymbolIndex();
+    return index?.search(symbol, 5).find((result) => result.symbol.toUpperCase() === symbol)?.description;
+  } catch {
+    return undefined;
+  }
+};
+
+export async function recordStockView(symbol: string, company?: string) {
+  const value = symbol.trim().toUpperCase();
+  if (value) await recordHistory('stock', value, company?.trim() || (await lookupCompany(value)));
+}
+
+export async function getSearchShortcuts(): Promise<SearchShortcutGroups> {
+  const empty: SearchShortcutGroups = { pinned: [], recent: [], watchlist: [] };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return empty;
+
+    await connectToDatabase();
+    const [pinned, recent, watchlist] = await Promise.all([
+      SearchHistory.find({ userId: user.id, pinned: true }).sort({ lastUsedAt: -1 }).lean(),
+      SearchHistory.find({ userId: user.id, pinned: false }).sort({ lastUsedAt: -1 }).limit(SEARCH_SHORTCUTS_PER_SECTION).lean(),
+      Watchlist.find({ userId: user.id }, { symbol: 1, company: 1 })
+        .sort({ addedAt: -1 })
+        .limit(SEARCH_SHORTCUTS_PER_SECTION)
+        .lean(),
+    ]);
+
+    return {
+      pinned: pinned.map(toSearchHistoryEntry),
+      recent: recent.map(toSearchHistoryEntry),
+      watchlist: watchlist.map((item) => ({ symbol: item.symbol, company: item.company })),
+    };
+  } catch (err) {
+    console.error('getSearchShortcuts error:', err);
+    return empty;
+  }
+}
+
+export async function setSearchHistoryPinned(entryId: string, pinned: boolean) {
+  if (!Types.ObjectId.isValid(entryId)) return { success: false, error: 'Search not found' };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your searches' };
+
+    await connectToDatabase();
+    const result = await SearchHistory.updateOne({ _id: entryId, userId: user.id }, { pinned });
+    if (result.matchedCount === 0) return { success: false, error: 'Search not found' };
+
+    // Unpinning can push the history back over its limit
+    if (!pinned) await pruneHistory(user.id);
+    return { success: true };
+  } catch (err) {
+    console.error('setSearchHistoryPinned error:', err);
+    return { success: false, error: 'Failed to update search' };
+  }
+}
+
+export async function removeSearchHistoryEntry(entryId: string) {
+  if (!Types.ObjectId.isValid(entryId)) return { success: false, error: 'Search not found' };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your searches' };
+
+    await connectToDatabase();
+    const result = await SearchHistory.deleteOne({ _id: entryId, userId: user.id });
+    if (result.deletedCount === 0) return { success: false, error: 'Search not found' };
+
+    return { success: true };
+  } catch (err) {
+    console.error('removeSearchHistoryEntry error:', err);
+    return { success: false, error: 'Failed to remove search' };
+  }
+}
+
+// Pinned entries survive a clear; they're removed one at a time
+export async function clearSearchHistory() {
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your searches' };
+
+    await connectToDatabase();
+    await SearchHistory.deleteMany({ userId: user.id, pinned: false });
+    return { success: true };
+  } catch (err) {
+    console.error('clearSearchHistory error:', err);
+    return { success: false, error: 'Failed to clear recent searches' };
+  }
+}
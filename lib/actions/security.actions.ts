@@ -0,0 +1,101 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { auth } from '@/lib/better-auth/auth';
+import { SIGN_IN_ACTIVITY_LIMIT } from '@/lib/constants';
+import { describeDevice } from '@/lib/security/devices';
+import { getRecentSignInAttempts } from '@/lib/security/signInAttempts';
+
+const SIGN_IN_DETAILS: Record<string, string> = {
+  INVALID_EMAIL_OR_PASSWORD: 'Wrong password',
+  EMAIL_NOT_VERIFIED: 'Email not verified',
+  BACKUP_CODE_USED: 'Signed in with a backup code',
+  INVALID_TWO_FACTOR_CODE: 'Wrong two-factor code',
+};
+
+const describeAttempt = (outcome: SignInAttemptOutcome, reason?: string) => {
+  if (reason && SIGN_IN_DETAILS[reason]) return SIGN_IN_DETAILS[reason];
+  if (outcome === 'two_factor') return 'Password accepted, waiting for two-factor code';
+  return outcome === 'success' ? 'Signed in' : 'Sign-in failed';
+};
+
+// Current session first, then most recently active
+export async function getActiveSessions(): Promise<ActiveSession[]> {
+  try {
+    const requestHeaders = await headers();
+    const current = await auth.api.getSession({ headers: requestHeaders });
+    if (!current) return [];
+
+    const sessions = await auth.api.listSessions({ headers: requestHeaders });
+
+    return sessions
+      .map((session) => ({
+        id: session.id,
+        device: describeDevice(session.userAgent),
+        ipAddress: session.ipAddress || null,
+        createdAt: new Date(session.createdAt).toISOString(),
+        lastSeenAt: new Date(session.updatedAt).toISOString(),
+        current: session.id === current.session.id,
+      }))
+      .sort((a, b) => Number(b.current) - Number(a.current) || b.lastSeenAt.localeCompare(a.lastSeenAt));
+  } catch (err) {
+    console.error('getActiveSessions error:', err);
+    return [];
+  }
+}
+
+// Takes the session id rather than its token so tokens never reach the browser
+export async function revokeSession(sessionId: string) {
+  try {
+    const requestHeaders = await headers();
+    const current = await auth.api.getSession({ headers: requestHeaders });
+    if (!current) return { success: false, error: 'You must be signed in to manage your sessions' };
+    if (current.session.id === sessionId) return { success: false, error: 'Use "Sign out" to end this session' };
+
+    const sessions = await auth.api.listSessions({ headers: requestHeaders });
+    const target = sessions.find((session) => session.id === sessionId);
+    if (!target) return { success: false, error: 'Session not found' };
+
+    await auth.api.revokeSession({ body: { token: target.token }, headers: requestHeaders });
+
+    revalidatePath('/settings/security');
+    return { success: true };
+  } catch (err) {
+    console.error('revokeSession error:', err);
+    return { success: false, error: 'Failed to sign out that device' };
+  }
+}
+
+export async function revokeOtherSessions() {
+  try {
+    await auth.api.revokeOtherSessions({ headers: await headers() });
+
+    revalidatePath('/settings/security');
+    return { success: true };
+  } catch (err) {
+    console.error('revokeOtherSessions error:', err);
+    return { success: false, error: 'Failed to sign out other devices' };
+  }
+}
+
+export async function getSignInActivity(): Promise<SignInActivity[]> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session) return [];
+
+    const attempts = await getRecentSignInAttempts(session.user.email, SIGN_IN_ACTIVITY_LIMIT);
+
+    return attempts.map((attempt) => ({
+      id: String(attempt._id),
+      outcome: attempt.outcome,
+      detail: describeAttempt(attempt.outcome, attempt.reason),
+      device: describeDevice(attempt.userAgent),
+      ipAddress: attempt.ipAddress ?? null,
+      createdAt: new Date(attempt.createdAt).toISOString(),
+    }));
+  } catch (err) {
+    console.error('getSignInActivity error:', err);
+    return [];
+  }
+}
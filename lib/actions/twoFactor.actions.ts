@@ -0,0 +1,154 @@
+'use server';
+
+import { cookies, headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { APIError } from 'better-auth/api';
+import QRCode from 'qrcode';
+import { auth } from '@/lib/better-auth/auth';
+import { recordSignInAttempt } from '@/lib/security/signInAttempts';
+import { clearChallenge, getChallengeUser, isChallengeLocked, recordChallengeFailure } from '@/lib/security/twoFactorChallenges';
+
+const errorCode = (err: unknown) => (err instanceof APIError ? err.body?.code : undefined);
+
+const passwordError = (err: unknown, fallback: string) =>
+  errorCode(err) === 'INVALID_PASSWORD' ? 'Incorrect password' : fallback;
+
+const findChallengeCookie = async () => {
+  const cookieStore = await cookies();
+  return cookieStore.getAll().find((cookie) => cookie.name.endsWith('.two_factor'));
+};
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user.twoFactorEnabled) return { enabled: false, backupCodesRemaining: 0 };
+
+    const backupCodesRemaining = await auth.api
+      .viewBackupCodes({ body: { userId: session.user.id } })
+      .then(({ backupCodes }) => backupCodes.length)
+      .catch(() => null);
+
+    return { enabled: true, backupCodesRemaining };
+  } catch (err) {
+    console.error('getTwoFactorStatus error:', err);
+    return { enabled: false, backupCodesRemaining: 0 };
+  }
+}
+
+// Creates a fresh secret; two-factor only turns on once confirmTwoFactorSetup sees a valid code
+export async function startTwoFactorSetup(password: string) {
+  try {
+    const { totpURI, backupCodes } = await auth.api.enableTwoFactor({
+      body: { password },
+      headers: await headers(),
+    });
+
+    return {
+      success: true,
+      data: {
+        qrCode: await QRCode.toDataURL(totpURI, { margin: 1, width: 200 }),
+        secret: new URL(totpURI).searchParams.get('secret') ?? '',
+        backupCodes,
+      },
+    };
+  } catch (err) {
+    console.error('startTwoFactorSetup error:', err);
+    return { success: false, error: passwordError(err, 'Failed to start two-factor setup') };
+  }
+}
+
+export async function confirmTwoFactorSetup(code: string) {
+  try {
+    await auth.api.verifyTOTP({ body: { code: code.replace(/\s+/g, '') }, headers: await headers() });
+
+    revalidatePath('/settings/security');
+    return { success: true };
+  } catch (err) {
+    if (errorCode(err) === 'INVALID_CODE') {
+      return { success: false, error: "That code didn't match. Check your device's clock and try again." };
+    }
+    console.error('confirmTwoFactorSetup error:', err);
+    return { success: false, error: 'Failed to turn on two-factor authentication' };
+  }
+}
+
+export async function disableTwoFactor(password: string) {
+  try {
+    await auth.api.disableTwoFactor({ body: { password }, headers: await headers() });
+
+    revalidatePath('/settings/security');
+    return { success: true };
+  } catch (err) {
+    console.error('disableTwoFactor error:', err);
+    return { success: false, error: passwordError(err, 'Failed to turn off two-factor authentication') };
+  }
+}
+
+// Replaces every backup code, so any the user wrote down earlier stop working
+export async function regenerateBackupCodes(password: string) {
+  try {
+    const { backupCodes } = await auth.api.generateBackupCodes({ body: { password }, headers: await headers() });
+
+    revalidatePath('/settings/security');
+    return { success: true, data: backupCodes };
+  } catch (err) {
+    console.error('regenerateBackupCodes error:', err);
+    return { success: false, error: passwordError(err, 'Failed to generate backup codes') };
+  }
+}
+
+// Second step of signInWithEmail. expired tells the page to send the user back to /sign-in.
+export async function verifyTwoFactorChallenge({ code, method, trustDevice }: TwoFactorChallengeFormData) {
+  const challenge = await findChallengeCookie();
+  if (!challenge) return { success: false, expired: true, error: 'Your sign-in expired. Please sign in again.' };
+
+  try {
+    if (await isChallengeLocked(challenge.value)) {
+      (await cookies()).delete(challenge.name);
+      return { success: false, expired: true, error: 'Too many incorrect codes. Please sign in again.' };
+    }
+
+    const requestHeaders = await headers();
+    const { user } =
+      method === 'backup'
+        ? await auth.api.verifyBackupCode({ body: { code: code.trim(), trustDevice }, headers: requestHeaders })
+        : await auth.api.verifyTOTP({ body: { code: code.replace(/\s+/g, ''), trustDevice }, headers: requestHeaders });
+
+    await clearChallenge(challenge.value);
+    await recordSignInAttempt(
+      { email: user.email, outcome: 'success', userId: user.id, reason: method === 'backup' ? 'BACKUP_CODE_USED' : undefined },
+      requestHeaders
+    );
+    return { success: true };
+  } catch (err) {
+    const reason = errorCode(err);
+
+    if (reason === 'INVALID_CODE' || reason === 'INVALID_BACKUP_CODE') {
+      // Looked up before recordChallengeFailure, which drops the pending sign-in on lockout
+      const user = await getChallengeUser(challenge.value).catch(() => null);
+      if (user) {
+        await recordSignInAttempt(
+          { email: user.email, outcome: 'failed', userId: user.id, reason: 'INVALID_TWO_FACTOR_CODE' },
+          await headers()
+        );
+      }
+
+      const locked = await recordChallengeFailure(challenge.value).catch((failure) => {
+        // Fail closed: without a count the cap can't be enforced
+        console.error('recordChallengeFailure error:', failure);
+        return true;
+      });
+      if (!locked) return { success: false, error: method === 'backup' ? 'Invalid backup code' : 'Invalid code' };
+
+      (await cookies()).delete(challenge.name);
+      return { success: false, expired: true, error: 'Too many incorrect codes. Please sign in again.' };
+    }
+
+    if (reason === 'INVALID_TWO_FACTOR_COOKIE') {
+      return { success: false, expired: true, error: 'Your sign-in expired. Please sign in again.' };
+    }
+
+    console.error('verifyTwoFactorChallenge error:', err);
+    return { success: false, error: 'Verification failed' };
+  }
+}
@@ -19,6 +19,9 @@
 // Evita crear múltiples conexiones en cada petición (mejor performance)
 // Ubicada en @/database/mongoose (probablemente database/mongoose.ts)
 import {connectToDatabase} from "@/database/mongoose";
+import {Types} from "mongoose";
+// Perfil de inversión guardado al registrarse (colección 'userprofiles')
+import {getUserProfilesByIds} from "@/lib/profile/profiles";
 
 // ============================================
 // SERVER ACTION: getAllUsersForNewsEmail
@@ -177,6 +180,10 @@ export const getAllUsersForNewsEmail = async () => {
         // - Bugs en código anterior
         //
         // Este filtrado garantiza calidad de datos antes de enviar emails
+        //
+        // Los perfiles de inversión se cargan en una sola consulta para personalizar el resumen
+        const profiles = await getUserProfilesByIds(users.map((user) => user.id || user._id?.toString() || ''));
+
         return users
             // ============================================
             // .filter(): FILTRADO ADICIONAL
@@ -232,12 +239,14 @@ export const getAllUsersForNewsEmail = async () => {
                 // ============================================
                 // Nombre para personalizar el email: "Hi John,"
                 // Ya sabemos que existe porque pasó el filtro anterior
-                name: user.name
-                
-                // NOTA: NO incluimos 'country' en el resultado final
-                // Aunque lo obtuvimos de MongoDB, no lo necesitamos aquí
-                // Si lo necesitaras para timezone/idioma, podrías agregarlo:
-                // country: user.country
+                name: user.name,
+
+                // ============================================
+                // PROFILE: PERFIL DE INVERSIÓN
+                // ============================================
+                // País, objetivos, riesgo e industria preferida; null si el usuario
+                // se registró antes de que se guardaran los perfiles
+                profile: profiles.get(user.id || user._id?.toString() || '') ?? null
             }))
             // ============================================
             // RESULTADO FINAL:
@@ -289,6 +298,50 @@ export const getAllUsersForNewsEmail = async () => {
     }
 }
 
+// ============================================
+// SERVER ACTION: getUsersByIds
+// ============================================
+// Obtiene email y nombre de un conjunto de usuarios a partir de sus IDs de Better Auth
+// Se usa en los workflows de Inngest (ej: alertas de precio) que solo conocen el userId
+//
+// NOTA: el adaptador de MongoDB de Better Auth guarda el ID como _id (ObjectId),
+// por eso se busca tanto por _id como por un campo id legado
+export const getUsersByIds = async (userIds: string[]) => {
+    const ids = [...new Set(userIds.filter(Boolean))];
+    if (ids.length === 0) return [];
+
+    try {
+        const mongoose = await connectToDatabase();
+        const db = mongoose.connection.db;
+        if(!db) throw new Error('Mongoose connection not connected');
+
+        const objectIds = ids
+            .filter((id) => Types.ObjectId.isValid(id))
+            .map((id) => new Types.ObjectId(id));
+
+        const users = await db.collection('user')
+            .find(
+                { $or: [{ _id: { $in: objectIds } }, { id: { $in: ids } }] },
+                { projection: { _id: 1, id: 1, email: 1, name: 1 } }
+            )
+            .toArray();
+
+        const profiles = await getUserProfilesByIds(users.map((user) => user.id || user._id?.toString() || ''));
+
+        return users
+            .filter((user) => user.email)
+            .map((user) => ({
+                id: user.id || user._id?.toString() || '',
+                email: user.email as string,
+                name: (user.name as string) || '',
+                profile: profiles.get(user.id || user._id?.toString() || '') ?? null,
+            }))
+    } catch (e) {
+        console.error('Error fetching users by id:', e)
+        return []
+    }
+}
+
 // ============================================
 // FLUJO DE TRABAJO COMPLETO: ENVÍO DE NEWSLETTER
 // ============================================
@@ -1,7 +1,19 @@
 'use server';
 
+import { revalidatePath } from 'next/cache';
 import { connectToDatabase } from '@/database/mongoose';
 import { Watchlist } from '@/database/models/watchlist.model';
+import { getSessionUser } from '@/lib/better-auth/session';
+import { getStockSnapshot, searchStocks } from '@/lib/actions/finnhub.actions';
+import { formatChangePercent, formatMarketCapValue, formatPrice } from '@/lib/utils';
+
+const isDuplicateKeyError = (err: unknown) =>
+  typeof err === 'object' && err !== null && (err as { code?: number }).code === 11000;
+
+const revalidateWatchlistPaths = (symbol: string) => {
+  revalidatePath(`/stocks/${symbol}`);
+  revalidatePath('/watchlist');
+};
 
 export async function getWatchlistSymbolsByEmail(email: string): Promise<string[]> {
   if (!email) return [];
@@ -25,4 +37,142 @@ export async function getWatchlistSymbolsByEmail(email: string): Promise<string[
     console.error('getWatchlistSymbolsByEmail error:', err);
     return [];
   }
-}
\ No newline at end of file
+}
+
+// For background jobs that already know the user, e.g. the re-engagement email
+export async function getWatchlistItemsByUserId(userId: string): Promise<{ symbol: string; company: string }[]> {
+  if (!userId) return [];
+
+  try {
+    await connectToDatabase();
+    const items = await Watchlist.find({ userId }, { symbol: 1, company: 1 }).sort({ addedAt: -1 }).lean();
+    return items.map((item) => ({ symbol: item.symbol, company: item.company }));
+  } catch (err) {
+    console.error('getWatchlistItemsByUserId error:', err);
+    return [];
+  }
+}
+
+export async function getCurrentUserWatchlistSymbols(): Promise<string[]> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return [];
+
+    await connectToDatabase();
+    const items = await Watchlist.find({ userId: user.id }, { symbol: 1 }).lean();
+    return items.map((i) => String(i.symbol));
+  } catch (err) {
+    console.error('getCurrentUserWatchlistSymbols error:', err);
+    return [];
+  }
+}
+
+// searchStocks is cached per query and shared by everyone, so the per-user status is merged here
+export async function searchStocksWithWatchlistStatus(query?: string): Promise<StockWithWatchlistStatus[]> {
+  const [stocks, symbols] = await Promise.all([searchStocks(query), getCurrentUserWatchlistSymbols()]);
+  const watchlist = new Set(symbols);
+  return stocks.map((stock) => ({ ...stock, isInWatchlist: watchlist.has(stock.symbol) }));
+}
+
+export async function getWatchlistWithData(): Promise<StockWithData[]> {
+  try {
+    const user = await getSessionUser();
+    if (!user) return [];
+
+    await connectToDatabase();
+    const items = await Watchlist.find({ userId: user.id }).sort({ addedAt: -1 }).lean();
+    if (items.length === 0) return [];
+
+    return await Promise.all(
+      items.map(async (item) => {
+        const { quote, profile, financials } = await getStockSnapshot(item.symbol);
+
+        const currentPrice = typeof quote?.c === 'number' && quote.c > 0 ? quote.c : undefined;
+        const changePercent = typeof quote?.dp === 'number' ? quote.dp : undefined;
+        // Finnhub reports market capitalization in millions of USD
+        const marketCapValue = profile?.marketCapitalization ? profile.marketCapitalization * 1e6 : undefined;
+        const peRatioValue = financials?.metric?.peTTM ?? financials?.metric?.peNormalizedAnnual;
+
+        return {
+          userId: item.userId,
+          symbol: item.symbol,
+          company: profile?.name || item.company,
+          addedAt: item.addedAt,
+          currentPrice,
+          changePercent,
+          priceFormatted: currentPrice !== undefined ? formatPrice(currentPrice) : '—',
+          changeFormatted: formatChangePercent(changePercent) || '—',
+          marketCap: marketCapValue !== undefined ? formatMarketCapValue(marketCapValue) : 'N/A',
+          marketCapValue,
+          peRatio: typeof peRatioValue === 'number' && peRatioValue > 0 ? peRatioValue.toFixed(1) : '—',
+          peRatioValue,
+        };
+      })
+    );
+  } catch (err) {
+    console.error('getWatchlistWithData error:', err);
+    return [];
+  }
+}
+
+export async function isSymbolInWatchlist(symbol: string): Promise<boolean> {
+  const upper = symbol?.trim().toUpperCase();
+  if (!upper) return false;
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return false;
+
+    await connectToDatabase();
+    const exists = await Watchlist.exists({ userId: user.id, symbol: upper });
+    return !!exists;
+  } catch (err) {
+    console.error('isSymbolInWatchlist error:', err);
+    return false;
+  }
+}
+
+export async function addToWatchlist(symbol: string, company: string) {
+  const upper = symbol?.trim().toUpperCase();
+  if (!upper) return { success: false, error: 'Symbol is required' };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your watchlist' };
+
+    await connectToDatabase();
+    await Watchlist.create({ userId: user.id, symbol: upper, company: company?.trim() || upper });
+
+    revalidateWatchlistPaths(upper);
+    return { success: true };
+  } catch (err) {
+    // The { userId, symbol } unique index already holds this pair, so the desired state is reached
+    if (isDuplicateKeyError(err)) return { success: true };
+
+    console.error('addToWatchlist error:', err);
+    return { success: false, error: 'Failed to add stock to watchlist' };
+  }
+}
+
+export async function removeFromWatchlist(symbol: string) {
+  const upper = symbol?.trim().toUpperCase();
+  if (!upper) return { success: false, error: 'Symbol is required' };
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return { success: false, error: 'You must be signed in to manage your watchlist' };
+
+    await connectToDatabase();
+    await Watchlist.deleteOne({ userId: user.id, symbol: upper });
+
+    revalidateWatchlistPaths(upper);
+    return { success: true };
+  } catch (err) {
+    console.error('removeFromWatchlist error:', err);
+    return { success: false, error: 'Failed to remove stock from watchlist' };
+  }
+}
+
+export async function toggleWatchlist(symbol: string, company: string, shouldAdd: boolean) {
+  return shouldAdd ? addToWatchlist(symbol, company) : removeFromWatchlist(symbol);
+}
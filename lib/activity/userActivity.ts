@@ -0,0 +1,41 @@
+import { connectToDatabase } from '@/database/mongoose';
+import { UserActivity } from '@/database/models/userActivity.model';
+import { USER_ACTIVITY_WRITE_INTERVAL_SECONDS } from '@/lib/constants';
+
+// Last write per user on this server instance, so page views don't each hit Mongo
+const lastWrites = new Map<string, number>();
+
+// Never throws: activity tracking must not break the page that triggered it
+export const recordUserActivity = async (userId: string) => {
+  const now = Date.now();
+  const lastWrite = lastWrites.get(userId);
+  if (lastWrite && now - lastWrite < USER_ACTIVITY_WRITE_INTERVAL_SECONDS * 1000) return;
+
+  lastWrites.set(userId, now);
+  try {
+    await connectToDatabase();
+    await UserActivity.updateOne({ userId }, { $set: { lastSeenAt: new Date(now) } }, { upsert: true });
+  } catch (err) {
+    lastWrites.delete(userId);
+    console.error('recordUserActivity error:', err);
+  }
+};
+
+// Users idle for at least inactiveDays who haven't been reminded since they were last seen.
+// Tracking starts with this collection, so users with no activity row are never included.
+export const getInactiveUsersDueReminder = async (inactiveDays: number) => {
+  await connectToDatabase();
+  const cutoff = new Date(Date.now() - inactiveDays * 24 * 60 * 60 * 1000);
+
+  const items = await UserActivity.find({
+    lastSeenAt: { $lte: cutoff },
+    $or: [{ reminderSentAt: { $exists: false } }, { $expr: { $lt: ['$reminderSentAt', '$lastSeenAt'] } }],
+  }).lean();
+
+  return items.map((item) => ({ userId: item.userId, lastSeenAt: new Date(item.lastSeenAt).toISOString() }));
+};
+
+export const markReminderSent = async (userId: string) => {
+  await connectToDatabase();
+  await UserActivity.updateOne({ userId }, { $set: { reminderSentAt: new Date() } });
+};
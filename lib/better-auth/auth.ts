@@ -23,6 +23,21 @@ import { connectToDatabase} from "@/database/mongoose";
 // Gestiona: HttpOnly cookies, Secure flags, SameSite attributes
 import { nextCookies} from "better-auth/next-js";
 
+// twoFactor: plugin de 2FA (TOTP con app autenticadora + códigos de respaldo)
+import { twoFactor } from "better-auth/plugins";
+
+// Db: tipo de la instancia nativa de MongoDB que recibe el adapter
+import type { Db } from "mongodb";
+
+// Emails de verificación y de restablecimiento de contraseña
+import { sendPasswordResetEmail, sendVerificationEmail } from "@/lib/nodemailer";
+
+// getAppUrl: URL absoluta de una página de la app (BETTER_AUTH_URL o NEXT_PUBLIC_BASE_URL)
+import { getAppUrl } from "@/lib/utils";
+
+// Minutos que vive el paso de 2FA; twoFactor.actions guarda los intentos fallidos el mismo tiempo
+import { TWO_FACTOR_CHALLENGE_MINUTES } from "@/lib/constants";
+
 // ============================================
 // VARIABLE GLOBAL: CACHE DE INSTANCIA
 // ============================================
@@ -33,13 +48,262 @@ import { nextCookies} from "better-auth/next-js";
 // Queremos UNA SOLA instancia de Better Auth en toda la aplicación
 // No crear nueva instancia en cada import o petición (ineficiente)
 //
-// ReturnType<typeof betterAuth>: tipo TypeScript que extrae el tipo de retorno
-// - typeof betterAuth: obtiene el tipo de la función betterAuth
+// ReturnType<typeof createAuth>: tipo TypeScript que extrae el tipo de retorno
+// - typeof createAuth: obtiene el tipo de la función que configura Better Auth
 // - ReturnType<...>: extrae qué retorna esa función
-// Resultado: tipo exacto de la instancia de Better Auth
+// Resultado: tipo exacto de la instancia, incluyendo endpoints de plugins
 //
 // | null: puede ser null inicialmente (antes de la primera creación)
-let authInstance: ReturnType<typeof betterAuth> | null = null;
+let authInstance: ReturnType<typeof createAuth> | null = null;
+
+// ============================================
+// CONFIGURACIÓN DE BETTER AUTH
+// ============================================
+// createAuth vive fuera de getAuth para que TypeScript infiera los endpoints de los plugins
+// (twoFactor agrega auth.api.enableTwoFactor, verifyTOTP, etc.)
+// betterAuth(): función que crea instancia con configuración específica
+// Recibe un objeto de configuración con múltiples opciones
+const createAuth = (db: Db) => betterAuth({
+    // ============================================
+    // CONFIGURACIÓN: DATABASE ADAPTER
+    // ============================================
+    // database: define QUÉ base de datos usa Better Auth
+    // mongodbAdapter(db): adaptador que traduce operaciones a MongoDB
+    //
+    // PROCESO INTERNO:
+    // - Better Auth llama: adapter.createUser({ email, password })
+    // - Adapter traduce: db.collection('user').insertOne({ ... })
+    // - Better Auth es agnóstico de DB, adapter hace la traducción
+    //
+    // as any: cast de TypeScript porque tipos pueden no coincidir perfectamente
+    // (pequeña incompatibilidad entre tipos de Mongoose y Better Auth)
+    // En runtime funciona perfectamente, solo es tema de tipos
+    database: mongodbAdapter(db as any),
+    
+    // ============================================
+    // CONFIGURACIÓN: SECRET KEY
+    // ============================================
+    // secret: clave secreta para firmar tokens JWT y cookies
+    // CRÍTICA PARA SEGURIDAD: debe ser larga, aleatoria, y secreta
+    //
+    // process.env.BETTER_AUTH_SECRET: variable de entorno
+    // Ejemplo en .env: BETTER_AUTH_SECRET="tu-clave-super-secreta-de-32-chars-minimo"
+    //
+    // SE USA PARA:
+    // - Firmar JWT tokens (previene manipulación)
+    // - Encriptar cookies de sesión
+    // - Generar tokens de verificación
+    // - Validar que tokens no fueron alterados
+    //
+    // NUNCA debe estar hardcoded en código (seguridad)
+    // NUNCA debe commitearse a Git (usar .env y .gitignore)
+    // DEBE SER DIFERENTE en dev, staging, producción
+    secret: process.env.BETTER_AUTH_SECRET,
+
+    // ============================================
+    // CONFIGURACIÓN: BASE URL
+    // ============================================
+    // baseURL: URL base de tu aplicación
+    // Se usa para generar URLs absolutas (emails, redirects, callbacks)
+    //
+    // process.env.BETTER_AUTH_URL: variable de entorno
+    // Ejemplos:
+    // - Dev: "http://localhost:3000"
+    // - Staging: "https://staging.tuapp.com"
+    // - Producción: "https://tuapp.com"
+    //
+    // SE USA PARA:
+    // - Links en emails de verificación: "https://tuapp.com/verify?token=..."
+    // - Redirects después de OAuth: "https://tuapp.com/auth/callback"
+    // - URLs en cookies (dominio correcto)
+    //
+    // IMPORTANTE: debe coincidir con el dominio real de tu app
+    baseURL: process.env.BETTER_AUTH_URL,
+    
+    // ============================================
+    // CONFIGURACIÓN: EMAIL & PASSWORD AUTHENTICATION
+    // ============================================
+    // emailAndPassword: habilita y configura auth con email/password
+    // Este es el método "tradicional" de autenticación
+    emailAndPassword: {
+        // ============================================
+        // enabled: true
+        // ============================================
+        // Habilita autenticación con email y password
+        // Si es false, solo podrías usar OAuth (Google, GitHub, etc.)
+        enabled: true,
+        
+        // ============================================
+        // disableSignUp: false
+        // ============================================
+        // Permite que usuarios NUEVOS se registren
+        // Si fuera true:
+        // - Solo usuarios existentes pueden hacer login
+        // - No se pueden crear cuentas nuevas
+        // - Útil para apps "invite-only" o cerradas
+        //
+        // false: cualquiera puede registrarse (tu caso)
+        disableSignUp: false,
+        
+        // ============================================
+        // requireEmailVerification: false
+        // ============================================
+        // NO requiere verificación de email para usar la app
+        //
+        // Si fuera true:
+        // - Después de registrarse, se envía email con link
+        // - Usuario debe hacer clic en link para verificar
+        // - No puede acceder a la app hasta verificar
+        //
+        // false: usuario puede usar app inmediatamente después de registro
+        // (más friction = menos conversión, pero menos seguridad)
+        //
+        // RECOMENDACIÓN: true en producción (previene spam, bots, emails falsos)
+        // Se activa con REQUIRE_EMAIL_VERIFICATION=true; el email de verificación
+        // se envía siempre al registrarse (ver emailVerification más abajo)
+        requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+
+        // ============================================
+        // RESTABLECER CONTRASEÑA
+        // ============================================
+        // Better Auth genera el token; el link apunta a nuestra página /reset-password
+        // Sin await: la respuesta tarda lo mismo exista o no la cuenta
+        sendResetPassword: async ({ user, token }) => {
+            sendPasswordResetEmail({
+                email: user.email,
+                name: user.name,
+                url: getAppUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+                expiresIn: '1 hour',
+            }).catch((e) => console.error('Password reset email failed', e));
+        },
+        resetPasswordTokenExpiresIn: 60 * 60,
+        // Cambiar la contraseña cierra las sesiones abiertas en otros dispositivos
+        revokeSessionsOnPasswordReset: true,
+        
+        // ============================================
+        // minPasswordLength: 8
+        // ============================================
+        // Password debe tener MÍNIMO 8 caracteres
+        // Better Auth rechazará passwords más cortas
+        //
+        // ESTÁNDAR DE SEGURIDAD:
+        // - 8 es el mínimo aceptable (NIST guidelines)
+        // - Recomendado: 12+ para mejor seguridad
+        // - Apps financieras: 14+ caracteres
+        //
+        // Validación en el SERVIDOR (no se puede bypassear desde cliente)
+        minPasswordLength: 8,
+        
+        // ============================================
+        // maxPasswordLength: 128
+        // ============================================
+        // Password NO puede exceder 128 caracteres
+        // Previene ataques DoS con passwords gigantes
+        //
+        // RAZÓN:
+        // - Hashear passwords muy largas consume mucha CPU
+        // - Atacante podría enviar password de 1MB para saturar servidor
+        // - 128 caracteres es más que suficiente para cualquier password
+        maxPasswordLength: 128,
+        
+        // ============================================
+        // autoSignIn: true
+        // ============================================
+        // Después de REGISTRARSE, el usuario es automáticamente LOGUEADO
+        //
+        // FLUJO CON autoSignIn: true (tu configuración):
+        // 1. Usuario llena formulario de registro
+        // 2. Submit → signUpWithEmail()
+        // 3. Better Auth crea cuenta
+        // 4. Better Auth crea sesión automáticamente
+        // 5. Better Auth establece cookie
+        // 6. Usuario es redirigido a /dashboard (ya logueado)
+        //
+        // FLUJO CON autoSignIn: false:
+        // 1. Usuario llena formulario de registro
+        // 2. Submit → signUpWithEmail()
+        // 3. Better Auth crea cuenta
+        // 4. Usuario es redirigido a /sign-in
+        // 5. Usuario debe ingresar email/password NUEVAMENTE
+        // 6. Ahora sí puede acceder a /dashboard
+        //
+        // VENTAJAS DE true:
+        // - Mejor UX (un paso menos)
+        // - Menos friction (más conversión)
+        // - Usuario ve valor inmediatamente
+        //
+        // DESVENTAJAS DE true:
+        // - Si requireEmailVerification=true, usuario podría usar app sin verificar
+        autoSignIn: true,
+    },
+
+    // ============================================
+    // CONFIGURACIÓN: VERIFICACIÓN DE EMAIL
+    // ============================================
+    // sendOnSignIn: si la verificación es obligatoria y el usuario intenta entrar
+    // sin verificar, se le reenvía el link
+    emailVerification: {
+        sendOnSignUp: true,
+        sendOnSignIn: true,
+        expiresIn: 24 * 60 * 60,
+        sendVerificationEmail: async ({ user, token }) => {
+            sendVerificationEmail({
+                email: user.email,
+                name: user.name,
+                url: getAppUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+                expiresIn: '24 hours',
+            }).catch((e) => console.error('Verification email failed', e));
+        },
+    },
+    
+    // ============================================
+    // CONFIGURACIÓN: PLUGINS
+    // ============================================
+    // plugins: array de plugins que extienden funcionalidad de Better Auth
+    // Plugins pueden agregar: OAuth providers, 2FA, rate limiting, etc.
+    plugins: [
+        // ============================================
+        // PLUGIN: twoFactor()
+        // ============================================
+        // issuer: nombre que muestra la app autenticadora junto al email
+        // Si el usuario tiene 2FA activo, signInEmail no crea sesión: responde
+        // twoFactorRedirect y la sesión se completa en /two-factor con verifyTOTP
+        // o verifyBackupCode. Debe ir antes de nextCookies()
+        //
+        // otpOptions.period: minutos que vive la cookie del paso de 2FA (por defecto 3,
+        // poco tiempo si el usuario tiene que buscar un código de respaldo)
+        twoFactor({
+            issuer: 'Market Journal',
+            otpOptions: { period: TWO_FACTOR_CHALLENGE_MINUTES },
+            backupCodeOptions: { amount: 10, length: 10 },
+        }),
+
+        // ============================================
+        // PLUGIN: nextCookies()
+        // ============================================
+        // Plugin específico para Next.js que optimiza manejo de cookies
+        //
+        // FUNCIONALIDADES:
+        // - Configura cookies para App Router de Next.js
+        // - Maneja Server Components correctamente
+        // - Optimiza cookies para Server Actions
+        // - Configura headers de cookies apropiadamente
+        // - Gestiona cookies en Middleware
+        //
+        // CONFIGURACIÓN DE COOKIES QUE APLICA:
+        // - HttpOnly: true (JavaScript no puede leer, previene XSS)
+        // - Secure: true en producción (solo HTTPS)
+        // - SameSite: 'lax' (previene CSRF)
+        // - Path: '/' (disponible en toda la app)
+        // - MaxAge: 30 días (sesión expira en 30 días)
+        //
+        // SIN ESTE PLUGIN:
+        // - Cookies podrían no funcionar correctamente en Server Components
+        // - Middleware podría no leer sesión correctamente
+        // - Server Actions podrían tener problemas con autenticación
+        nextCookies()
+    ],
+});
 
 // ============================================
 // FUNCIÓN ASÍNCRONA: getAuth
@@ -106,197 +370,9 @@ export const getAuth = async () => {
     if(!db) throw new Error('MongoDB connection not found');
 
     // ============================================
-    // PASO 4: CREAR Y CONFIGURAR INSTANCIA DE BETTER AUTH
+    // PASO 4: CREAR INSTANCIA DE BETTER AUTH
     // ============================================
-    // betterAuth(): función que crea instancia con configuración específica
-    // Recibe un objeto de configuración con múltiples opciones
-    authInstance = betterAuth({
-        // ============================================
-        // CONFIGURACIÓN: DATABASE ADAPTER
-        // ============================================
-        // database: define QUÉ base de datos usa Better Auth
-        // mongodbAdapter(db): adaptador que traduce operaciones a MongoDB
-        //
-        // PROCESO INTERNO:
-        // - Better Auth llama: adapter.createUser({ email, password })
-        // - Adapter traduce: db.collection('user').insertOne({ ... })
-        // - Better Auth es agnóstico de DB, adapter hace la traducción
-        //
-        // as any: cast de TypeScript porque tipos pueden no coincidir perfectamente
-        // (pequeña incompatibilidad entre tipos de Mongoose y Better Auth)
-        // En runtime funciona perfectamente, solo es tema de tipos
-        database: mongodbAdapter(db as any),
-        
-        // ============================================
-        // CONFIGURACIÓN: SECRET KEY
-        // ============================================
-        // secret: clave secreta para firmar tokens JWT y cookies
-        // CRÍTICA PARA SEGURIDAD: debe ser larga, aleatoria, y secreta
-        //
-        // process.env.BETTER_AUTH_SECRET: variable de entorno
-        // Ejemplo en .env: BETTER_AUTH_SECRET="tu-clave-super-secreta-de-32-chars-minimo"
-        //
-        // SE USA PARA:
-        // - Firmar JWT tokens (previene manipulación)
-        // - Encriptar cookies de sesión
-        // - Generar tokens de verificación
-        // - Validar que tokens no fueron alterados
-        //
-        // NUNCA debe estar hardcoded en código (seguridad)
-        // NUNCA debe commitearse a Git (usar .env y .gitignore)
-        // DEBE SER DIFERENTE en dev, staging, producción
-        secret: process.env.BETTER_AUTH_SECRET,
-    
-        // ============================================
-        // CONFIGURACIÓN: BASE URL
-        // ============================================
-        // baseURL: URL base de tu aplicación
-        // Se usa para generar URLs absolutas (emails, redirects, callbacks)
-        //
-        // process.env.BETTER_AUTH_URL: variable de entorno
-        // Ejemplos:
-        // - Dev: "http://localhost:3000"
-        // - Staging: "https://staging.tuapp.com"
-        // - Producción: "https://tuapp.com"
-        //
-        // SE USA PARA:
-        // - Links en emails de verificación: "https://tuapp.com/verify?token=..."
-        // - Redirects después de OAuth: "https://tuapp.com/auth/callback"
-        // - URLs en cookies (dominio correcto)
-        //
-        // IMPORTANTE: debe coincidir con el dominio real de tu app
-        baseURL: process.env.BETTER_AUTH_URL,
-        
-        // ============================================
-        // CONFIGURACIÓN: EMAIL & PASSWORD AUTHENTICATION
-        // ============================================
-        // emailAndPassword: habilita y configura auth con email/password
-        // Este es el método "tradicional" de autenticación
-        emailAndPassword: {
-            // ============================================
-            // enabled: true
-            // ============================================
-            // Habilita autenticación con email y password
-            // Si es false, solo podrías usar OAuth (Google, GitHub, etc.)
-            enabled: true,
-            
-            // ============================================
-            // disableSignUp: false
-            // ============================================
-            // Permite que usuarios NUEVOS se registren
-            // Si fuera true:
-            // - Solo usuarios existentes pueden hacer login
-            // - No se pueden crear cuentas nuevas
-            // - Útil para apps "invite-only" o cerradas
-            //
-            // false: cualquiera puede registrarse (tu caso)
-            disableSignUp: false,
-            
-            // ============================================
-            // requireEmailVerification: false
-            // ============================================
-            // NO requiere verificación de email para usar la app
-            //
-            // Si fuera true:
-            // - Después de registrarse, se envía email con link
-            // - Usuario debe hacer clic en link para verificar
-            // - No puede acceder a la app hasta verificar
-            //
-            // false: usuario puede usar app inmediatamente después de registro
-            // (más friction = menos conversión, pero menos seguridad)
-            //
-            // RECOMENDACIÓN: true en producción (previene spam, bots, emails falsos)
-            requireEmailVerification: false,
-            
-            // ============================================
-            // minPasswordLength: 8
-            // ============================================
-            // Password debe tener MÍNIMO 8 caracteres
-            // Better Auth rechazará passwords más cortas
-            //
-            // ESTÁNDAR DE SEGURIDAD:
-            // - 8 es el mínimo aceptable (NIST guidelines)
-            // - Recomendado: 12+ para mejor seguridad
-            // - Apps financieras: 14+ caracteres
-            //
-            // Validación en el SERVIDOR (no se puede bypassear desde cliente)
-            minPasswordLength: 8,
-            
-            // ============================================
-            // maxPasswordLength: 128
-            // ============================================
-            // Password NO puede exceder 128 caracteres
-            // Previene ataques DoS con passwords gigantes
-            //
-            // RAZÓN:
-            // - Hashear passwords muy largas consume mucha CPU
-            // - Atacante podría enviar password de 1MB para saturar servidor
-            // - 128 caracteres es más que suficiente para cualquier password
-            maxPasswordLength: 128,
-            
-            // ============================================
-            // autoSignIn: true
-            // ============================================
-            // Después de REGISTRARSE, el usuario es automáticamente LOGUEADO
-            //
-            // FLUJO CON autoSignIn: true (tu configuración):
-            // 1. Usuario llena formulario de registro
-            // 2. Submit → signUpWithEmail()
-            // 3. Better Auth crea cuenta
-            // 4. Better Auth crea sesión automáticamente
-            // 5. Better Auth establece cookie
-            // 6. Usuario es redirigido a /dashboard (ya logueado)
-            //
-            // FLUJO CON autoSignIn: false:
-            // 1. Usuario llena formulario de registro
-            // 2. Submit → signUpWithEmail()
-            // 3. Better Auth crea cuenta
-            // 4. Usuario es redirigido a /sign-in
-            // 5. Usuario debe ingresar email/password NUEVAMENTE
-            // 6. Ahora sí puede acceder a /dashboard
-            //
-            // VENTAJAS DE true:
-            // - Mejor UX (un paso menos)
-            // - Menos friction (más conversión)
-            // - Usuario ve valor inmediatamente
-            //
-            // DESVENTAJAS DE true:
-            // - Si requireEmailVerification=true, usuario podría usar app sin verificar
-            autoSignIn: true,
-        },
-        
-        // ============================================
-        // CONFIGURACIÓN: PLUGINS
-        // ============================================
-        // plugins: array de plugins que extienden funcionalidad de Better Auth
-        // Plugins pueden agregar: OAuth providers, 2FA, rate limiting, etc.
-        plugins: [
-            // ============================================
-            // PLUGIN: nextCookies()
-            // ============================================
-            // Plugin específico para Next.js que optimiza manejo de cookies
-            //
-            // FUNCIONALIDADES:
-            // - Configura cookies para App Router de Next.js
-            // - Maneja Server Components correctamente
-            // - Optimiza cookies para Server Actions
-            // - Configura headers de cookies apropiadamente
-            // - Gestiona cookies en Middleware
-            //
-            // CONFIGURACIÓN DE COOKIES QUE APLICA:
-            // - HttpOnly: true (JavaScript no puede leer, previene XSS)
-            // - Secure: true en producción (solo HTTPS)
-            // - SameSite: 'lax' (previene CSRF)
-            // - Path: '/' (disponible en toda la app)
-            // - MaxAge: 30 días (sesión expira en 30 días)
-            //
-            // SIN ESTE PLUGIN:
-            // - Cookies podrían no funcionar correctamente en Server Components
-            // - Middleware podría no leer sesión correctamente
-            // - Server Actions podrían tener problemas con autenticación
-            nextCookies()
-        ],
-    });
+    authInstance = createAuth(db);
 
     // ============================================
     // PASO 5: RETORNAR INSTANCIA CREADA
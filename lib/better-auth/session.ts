@@ -0,0 +1,15 @@
+import { headers } from "next/headers";
+import { auth } from "@/lib/better-auth/auth";
+
+// Resolves the signed-in user for server actions and server components.
+// Returns null instead of redirecting so callers decide how to respond.
+export const getSessionUser = async (): Promise<User | null> => {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user) return null;
+
+    return {
+        id: session.user.id,
+        name: session.user.name,
+        email: session.user.email,
+    };
+}
@@ -1,7 +1,9 @@
 export const NAV_ITEMS = [
     { href: '/', label: 'Dashboard' },
     { href: '/search', label: 'Search' },
-    // { href: '/watchlist', label: 'Watchlist' },
+    { href: '/watchlist', label: 'Watchlist' },
+    { href: '/portfolio', label: 'Portfolio' },
+    { href: '/journal', label: 'Journal' },
 ];
 
 // Sign-up form select options
@@ -26,9 +28,33 @@ export const PREFERRED_INDUSTRIES = [
     { value: 'Consumer Goods', label: 'Consumer Goods' },
 ];
 
+// Applies to users who haven't saved preferences on /settings/notifications
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    digest: true,
+    alerts: true,
+    engagement: true,
+    digestHour: 8,
+    timezone: 'UTC',
+};
+
+export const EMAIL_CATEGORY_OPTIONS: { value: EmailCategory; label: string; description: string }[] = [
+    { value: 'digest', label: 'Daily news digest', description: 'A morning summary of news for the stocks you follow.' },
+    { value: 'alerts', label: 'Price and volume alerts', description: 'Emails when one of your alerts triggers.' },
+    { value: 'engagement', label: 'Welcome and reminder emails', description: 'Onboarding tips and a nudge when you have been away for a while.' },
+];
+
+// Sign-up's preselected answers, shown on /settings/profile until a profile is saved
+export const DEFAULT_INVESTMENT_PROFILE: InvestmentProfile = {
+    country: 'US',
+    investmentGoals: 'Growth',
+    riskTolerance: 'Medium',
+    preferredIndustry: 'Technology',
+};
+
 export const ALERT_TYPE_OPTIONS = [
     { value: 'upper', label: 'Upper' },
     { value: 'lower', label: 'Lower' },
+    { value: 'volume', label: 'Volume Spike' },
 ];
 
 export const CONDITION_OPTIONS = [
@@ -36,6 +62,118 @@ export const CONDITION_OPTIONS = [
     { value: 'less', label: 'Less than (<)' },
 ];
 
+// Trade journal
+export const TRADE_SIDE_OPTIONS = [
+    { value: 'long', label: 'Long' },
+    { value: 'short', label: 'Short' },
+];
+
+export const TRANSACTION_TYPE_OPTIONS = [
+    { value: 'buy', label: 'Buy' },
+    { value: 'sell', label: 'Sell' },
+    { value: 'dividend', label: 'Dividend' },
+    { value: 'split', label: 'Stock Split' },
+    { value: 'fee', label: 'Fee' },
+    { value: 'deposit', label: 'Deposit' },
+    { value: 'withdrawal', label: 'Withdrawal' },
+];
+
+export const IMPORT_TARGET_OPTIONS = [
+    { value: 'transactions', label: 'Portfolio Transactions' },
+    { value: 'journal', label: 'Journal Trades' },
+];
+
+// Upper bounds per upload so a whole preview round-trips in one server action. The rows travel as
+// JSON, somewhat larger than the CSV, so next.config.ts allows server action bodies up to 8 MB.
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_FILE_MB = 4;
+
+export const COST_BASIS_METHOD_OPTIONS = [
+    { value: 'fifo', label: 'FIFO' },
+    { value: 'lifo', label: 'LIFO' },
+    { value: 'specific', label: 'Specific Lot' },
+];
+
+export const PORTFOLIO_TABLE_HEADER = [
+    'Symbol',
+    'Shares',
+    'Avg Cost',
+    'Price',
+    'Market Value',
+    'Unrealized P&L',
+    'Realized P&L',
+    'Dividends',
+];
+
+// Shared market data cache: entries are served as-is until freshSeconds, then served stale
+// while a refresh runs, and dropped once maxAgeSeconds has passed
+export const MARKET_DATA_CACHE_TTLS: Record<MarketDataCacheKind, { freshSeconds: number; maxAgeSeconds: number }> = {
+    quote: { freshSeconds: 60, maxAgeSeconds: 15 * 60 },
+    profile: { freshSeconds: 24 * 60 * 60, maxAgeSeconds: 7 * 24 * 60 * 60 },
+    metrics: { freshSeconds: 6 * 60 * 60, maxAgeSeconds: 3 * 24 * 60 * 60 },
+    news: { freshSeconds: 5 * 60, maxAgeSeconds: 60 * 60 },
+    search: { freshSeconds: 60 * 60, maxAgeSeconds: 24 * 60 * 60 },
+};
+
+export const SEARCH_PAGE_SIZE = 20;
+
+// Unpinned history kept per user; older searches and views are pruned past this
+export const SEARCH_HISTORY_LIMIT = 30;
+
+// Rows per section in the empty command palette
+export const SEARCH_SHORTCUTS_PER_SECTION = 5;
+
+// Exchanges whose symbol lists are mirrored into Mongo for the local search index
+export const SYMBOL_INDEX_EXCHANGES = ['US'];
+
+// How long a server instance keeps its in-memory index before reloading it from Mongo
+export const SYMBOL_INDEX_RELOAD_SECONDS = 6 * 60 * 60;
+
+// Results are ranked locally, so this only bounds what the paged /search view can show
+export const SYMBOL_INDEX_MAX_RESULTS = 200;
+
+// Wrong codes allowed on one two-factor challenge before the user has to sign in again
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// How long a pending two-factor sign-in stays open; also how long its failed-code count is kept
+export const TWO_FACTOR_CHALLENGE_MINUTES = 10;
+
+// Settings warns the user to regenerate backup codes at or below this many
+export const LOW_BACKUP_CODES_THRESHOLD = 3;
+
+// Rows in the sign-in activity log on /settings/security
+export const SIGN_IN_ACTIVITY_LIMIT = 20;
+
+// Minimum gap between last-seen writes for one user; also the precision of "last active"
+export const USER_ACTIVITY_WRITE_INTERVAL_SECONDS = 15 * 60;
+
+// Days without a visit before the re-engagement email; INACTIVE_USER_REMINDER_DAYS overrides it
+export const INACTIVE_USER_REMINDER_DEFAULT_DAYS = 14;
+
+// Watchlist rows shown in the re-engagement email, biggest movers first
+export const INACTIVE_USER_REMINDER_MAX_STOCKS = 5;
+
+// Waits between resends of a failed email; after the last one the log entry is marked failed
+export const EMAIL_RETRY_DELAYS = ['1m', '10m', '1h', '6h'] as const;
+
+// Rows per search on /admin/emails
+export const EMAIL_LOG_PAGE_SIZE = 50;
+
+export const EMAIL_LOG_STATUS_OPTIONS: { value: EmailLogStatus; label: string }[] = [
+    { value: 'sent', label: 'Sent' },
+    { value: 'retrying', label: 'Retrying' },
+    { value: 'failed', label: 'Failed' },
+];
+
+// Price alerts re-notify at most once per cooldown window while the threshold stays crossed
+export const ALERT_COOLDOWN_MINUTES = 24 * 60;
+
+// Volume alerts compare the current session against the average of this many previous daily candles
+export const VOLUME_ALERT_AVERAGE_DAYS = 20;
+
+// Timezone of the US exchanges, used to tell whether the latest daily candle is today's session
+export const US_MARKET_TIMEZONE = 'America/New_York';
+
 // TradingView Charts
 export const MARKET_OVERVIEW_WIDGET_CONFIG = {
     colorTheme: 'dark', // dark mode
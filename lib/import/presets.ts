@@ -0,0 +1,129 @@
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  transactions: [
+    { key: 'executedAt', label: 'Date', required: true },
+    { key: 'type', label: 'Action / Type', required: true },
+    { key: 'symbol', label: 'Symbol' },
+    { key: 'quantity', label: 'Quantity' },
+    { key: 'price', label: 'Price' },
+    { key: 'amount', label: 'Amount' },
+    { key: 'fees', label: 'Fees / Commission' },
+    { key: 'splitRatio', label: 'Split Ratio' },
+    { key: 'notes', label: 'Description / Notes' },
+  ],
+  journal: [
+    { key: 'symbol', label: 'Symbol', required: true },
+    { key: 'side', label: 'Side', required: true },
+    { key: 'quantity', label: 'Quantity', required: true },
+    { key: 'entryAt', label: 'Entry Time', required: true },
+    { key: 'entryPrice', label: 'Entry Price', required: true },
+    { key: 'exitAt', label: 'Exit Time' },
+    { key: 'exitPrice', label: 'Exit Price' },
+    { key: 'stopPrice', label: 'Stop Price' },
+    { key: 'fees', label: 'Fees / Commission' },
+    { key: 'strategy', label: 'Strategy / Tag' },
+    { key: 'notes', label: 'Notes' },
+  ],
+};
+
+// Header names as they appear in each broker's default export
+export const BROKER_PRESETS: BrokerPreset[] = [
+  {
+    id: 'schwab',
+    label: 'Charles Schwab',
+    target: 'transactions',
+    columns: {
+      executedAt: 'Date',
+      type: 'Action',
+      symbol: 'Symbol',
+      quantity: 'Quantity',
+      price: 'Price',
+      amount: 'Amount',
+      fees: 'Fees & Comm',
+      notes: 'Description',
+    },
+  },
+  {
+    id: 'fidelity',
+    label: 'Fidelity',
+    target: 'transactions',
+    columns: {
+      executedAt: 'Run Date',
+      type: 'Action',
+      symbol: 'Symbol',
+      quantity: 'Quantity',
+      price: 'Price ($)',
+      amount: 'Amount ($)',
+      fees: 'Commission ($)',
+      notes: 'Description',
+    },
+  },
+  {
+    id: 'ibkr',
+    label: 'Interactive Brokers (Flex Trades)',
+    target: 'transactions',
+    columns: {
+      executedAt: 'TradeDate',
+      type: 'Buy/Sell',
+      symbol: 'Symbol',
+      quantity: 'Quantity',
+      price: 'TradePrice',
+      fees: 'IBCommission',
+      notes: 'Description',
+    },
+  },
+  {
+    id: 'robinhood',
+    label: 'Robinhood',
+    target: 'transactions',
+    columns: {
+      executedAt: 'Activity Date',
+      type: 'Trans Code',
+      symbol: 'Instrument',
+      quantity: 'Quantity',
+      price: 'Price',
+      amount: 'Amount',
+      notes: 'Description',
+    },
+  },
+];
+
+// Maps broker wording ("Bought", "Reinvest Dividend", "CDIV", "Wire Funds") onto ledger types
+const TRANSACTION_TYPE_PATTERNS: [RegExp, TransactionType][] = [
+  [/split/i, 'split'],
+  [/div|cdiv|^qdiv$/i, 'dividend'],
+  [/^(buy|bot|b)$|bought|you bought|purchase/i, 'buy'],
+  [/^(sell|sld|s)$|sold|you sold/i, 'sell'],
+  [/withdraw|transfer out|wire out|journaled out|^ach ?w/i, 'withdrawal'],
+  [/deposit|contribution|transfer in|wire in|wire funds|moneylink|^ach ?d/i, 'deposit'],
+  [/fee|commission|^gold$|interest charged|margin interest/i, 'fee'],
+];
+
+export const normalizeTransactionType = (value: string): TransactionType | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return TRANSACTION_TYPE_PATTERNS.find(([pattern]) => pattern.test(trimmed))?.[1] ?? null;
+};
+
+export const normalizeTradeSide = (value: string): TradeSide | null => {
+  const trimmed = value.trim().toLowerCase();
+  if (['long', 'buy', 'b', 'bot', 'bought'].includes(trimmed)) return 'long';
+  if (['short', 'sell', 's', 'sld', 'sold', 'sell short', 'ss'].includes(trimmed)) return 'short';
+  return null;
+};
+
+// "$1,234.50", "(12.00)" and "-3" all become plain magnitudes; the type column carries the direction
+export const normalizeNumber = (value: string) => value.replace(/[$,\s()+-]/g, '');
+
+// Falls back to matching headers against field keys and labels when no preset applies
+export const guessColumns = (target: ImportTarget, headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const columns: ImportColumnMapping = {};
+
+  for (const field of IMPORT_FIELDS[target]) {
+    const candidates = [field.key, ...field.label.split('/')].map((name) => name.trim().toLowerCase());
+    const index = normalized.findIndex((header) => candidates.includes(header));
+    if (index !== -1) columns[field.key] = headers[index];
+  }
+
+  return columns;
+};
@@ -0,0 +1,77 @@
+import { normalizeNumber, normalizeTradeSide, normalizeTransactionType } from '@/lib/import/presets';
+
+const pick = (row: Record<string, string>, columns: ImportColumnMapping, key: string) => {
+  const header = columns[key];
+  return header ? (row[header] ?? '').trim() : '';
+};
+
+const pickNumber = (row: Record<string, string>, columns: ImportColumnMapping, key: string) =>
+  normalizeNumber(pick(row, columns, key));
+
+export const toRecord = (headers: string[], cells: string[]) =>
+  Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']));
+
+export const toTransactionFormData = (
+  row: Record<string, string>,
+  columns: ImportColumnMapping
+): TransactionFormData | { error: string } => {
+  const rawType = pick(row, columns, 'type');
+  const type = normalizeTransactionType(rawType);
+  if (!type) return { error: rawType ? `Unrecognized action "${rawType}"` : 'Action is missing' };
+
+  return {
+    type,
+    symbol: pick(row, columns, 'symbol'),
+    quantity: pickNumber(row, columns, 'quantity'),
+    price: pickNumber(row, columns, 'price'),
+    amount: pickNumber(row, columns, 'amount'),
+    fees: pickNumber(row, columns, 'fees'),
+    splitRatio: pickNumber(row, columns, 'splitRatio'),
+    executedAt: pick(row, columns, 'executedAt'),
+    notes: pick(row, columns, 'notes'),
+  };
+};
+
+export const toJournalEntryFormData = (
+  row: Record<string, string>,
+  columns: ImportColumnMapping
+): JournalEntryFormData | { error: string } => {
+  const rawSide = pick(row, columns, 'side');
+  const side = normalizeTradeSide(rawSide);
+  if (!side) return { error: rawSide ? `Unrecognized side "${rawSide}"` : 'Side is missing' };
+
+  return {
+    symbol: pick(row, columns, 'symbol'),
+    side,
+    quantity: pickNumber(row, columns, 'quantity'),
+    entryPrice: pickNumber(row, columns, 'entryPrice'),
+    exitPrice: pickNumber(row, columns, 'exitPrice'),
+    stopPrice: pickNumber(row, columns, 'stopPrice'),
+    entryAt: pick(row, columns, 'entryAt'),
+    exitAt: pick(row, columns, 'exitAt'),
+    fees: pickNumber(row, columns, 'fees'),
+    strategy: pick(row, columns, 'strategy'),
+    thesis: '',
+    emotions: '',
+    lessons: '',
+    notes: pick(row, columns, 'notes'),
+  };
+};
+
+// Two records are the same if they'd produce the same ledger effect at the same moment
+export const transactionKey = (tx: {
+  type: string;
+  symbol: string | null;
+  executedAt: Date;
+  quantity: number;
+  price: number;
+  amount: number;
+}) => [tx.type, tx.symbol ?? '', tx.executedAt.getTime(), tx.quantity, tx.price, tx.amount].join('|');
+
+export const journalEntryKey = (entry: {
+  symbol: string;
+  side: string;
+  entryAt: Date;
+  entryPrice: number;
+  quantity: number;
+}) => [entry.symbol, entry.side, entry.entryAt.getTime(), entry.entryPrice, entry.quantity].join('|');
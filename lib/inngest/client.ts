@@ -1,6 +1,19 @@
-import { Inngest} from "inngest";
+import { EventSchemas, Inngest} from "inngest";
+
+type Events = {
+    // userId is missing on events sent before sign-up started including it
+    'app/user.created': { data: InvestmentProfile & { userId?: string; email: string; name: string } };
+    'app/user.digest.due': { data: { userId: string; localDate: string } };
+    'app/email.failed': { data: { logId: string } };
+    // Manual triggers for the cron functions
+    'app/send.daily.news': { data: Record<string, never> };
+    'app/alerts.check': { data: Record<string, never> };
+    'app/symbols.refresh': { data: Record<string, never> };
+    'app/inactive.reminders': { data: Record<string, never> };
+};
 
 export const inngest = new Inngest({
     id: 'market-journal',
+    schemas: new EventSchemas().fromRecord<Events>(),
     ai: { gemini: { apiKey: process.env.GEMINI_API_KEY! }}
-})
\ No newline at end of file
+})
@@ -1,21 +1,43 @@
 import {inngest} from "@/lib/inngest/client";
 import {NEWS_SUMMARY_EMAIL_PROMPT, PERSONALIZED_WELCOME_EMAIL_PROMPT} from "@/lib/inngest/prompts";
-import {sendNewsSummaryEmail, sendWelcomeEmail} from "@/lib/nodemailer";
-import {getAllUsersForNewsEmail} from "@/lib/actions/user.actions";
-import { getWatchlistSymbolsByEmail } from "@/lib/actions/watchlist.actions";
-import { getNews } from "@/lib/actions/finnhub.actions";
-import { getFormattedTodayDate } from "@/lib/utils";
+import {sendInactiveUserReminderEmail, sendNewsSummaryEmail, sendPriceAlertEmail, sendVolumeAlertEmail, sendWelcomeEmail} from "@/lib/nodemailer";
+import {getAllUsersForNewsEmail, getUsersByIds} from "@/lib/actions/user.actions";
+import { getWatchlistItemsByUserId, getWatchlistSymbolsByEmail } from "@/lib/actions/watchlist.actions";
+import { getNews, getPriceChangesSince, getQuotes, getVolumeStats } from "@/lib/actions/finnhub.actions";
+import { getActiveAlertsForEvaluation, markAlertTriggered } from "@/lib/actions/alert.actions";
+import { getAppUrl, getFormattedTimestamp } from "@/lib/utils";
+import { getMarketDataProvider, refreshSymbolMaster } from "@/lib/market-data";
+import { formatAlertProfileNote, formatInvestmentProfile, getUserProfilesByIds } from "@/lib/profile/profiles";
+import { getInactiveUsersDueReminder, markReminderSent } from "@/lib/activity/userActivity";
+import { filterByEmailPreference, getDueDigestRecipients, getLocalDateTime, getNotificationPreferencesByIds, wantsEmail } from "@/lib/notifications/preferences";
+import { getUnsubscribeLinks } from "@/lib/notifications/unsubscribe";
+import { resendLoggedEmail } from "@/lib/nodemailer/delivery";
+import { recordRetryOutcome } from "@/lib/notifications/emailLog";
+import { EMAIL_RETRY_DELAYS, INACTIVE_USER_REMINDER_DEFAULT_DAYS, INACTIVE_USER_REMINDER_MAX_STOCKS } from "@/lib/constants";
 
 export const sendSignUpEmail = inngest.createFunction(
     { id: 'sign-up-email' },
     { event: 'app/user.created'},
     async ({ event, step }) => {
-        const userProfile = `
-            - Country: ${event.data.country}
-            - Investment goals: ${event.data.investmentGoals}
-            - Risk tolerance: ${event.data.riskTolerance}
-            - Preferred industry: ${event.data.preferredIndustry}
-        `
+        const { userId, email, name } = event.data;
+
+        // Events queued before sign-up started sending userId can't be checked against the
+        // user's preferences or carry unsubscribe links, so they're skipped
+        if (!userId) {
+            console.error('sign-up email: event has no userId, skipping', email);
+            return { success: true, message: 'Welcome email skipped: no userId on event' }
+        }
+
+        // Checked before the AI call so opted-out users don't cost an inference
+        const wanted = await step.run('check-email-preference', () => wantsEmail(userId, 'engagement'));
+        if (!wanted) return { success: true, message: 'Welcome email skipped: user opted out' }
+
+        const userProfile = formatInvestmentProfile({
+            country: event.data.country,
+            investmentGoals: event.data.investmentGoals,
+            riskTolerance: event.data.riskTolerance,
+            preferredIndustry: event.data.preferredIndustry,
+        })
 
         const prompt = PERSONALIZED_WELCOME_EMAIL_PROMPT.replace('{{userProfile}}', userProfile)
 
@@ -36,9 +58,7 @@ export const sendSignUpEmail = inngest.createFunction(
             const part = response.candidates?.[0]?.content?.parts?.[0];
             const introText = (part && 'text' in part ? part.text : null) ||'Thanks for joining Signalist. You now have the tools to track markets and make smarter moves.'
 
-            const { data: { email, name } } = event;
-
-            return await sendWelcomeEmail({ email, name, intro: introText });
+            await sendWelcomeEmail({ email, name, intro: introText, unsubscribe: getUnsubscribeLinks(userId, 'engagement') });
         })
 
         return {
@@ -48,73 +68,326 @@ export const sendSignUpEmail = inngest.createFunction(
     }
 )
 
-export const sendDailyNewsSummary = inngest.createFunction(
-    { id: 'daily-news-summary' },
-    [ { event: 'app/send.daily.news' }, { cron: '0 12 * * *' } ],
+// "2025-03-14" → "Friday, March 14, 2025"
+const formatDigestDate = (localDate: string) =>
+    new Date(`${localDate}T12:00:00Z`).toLocaleDateString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC',
+    });
+
+export const scheduleDailyDigests = inngest.createFunction(
+    { id: 'schedule-daily-digests' },
+    [ { event: 'app/send.daily.news' }, { cron: '0 * * * *' } ],
+    async ({ event, step }) => {
+        // The hourly cron picks users whose local delivery hour has arrived; the manual event sends to everyone now
+        const sendToAll = event.name === 'app/send.daily.news';
+
+        const due = await step.run('find-due-users', async () => {
+            if (!sendToAll) return getDueDigestRecipients();
+
+            const users = await getAllUsersForNewsEmail();
+            const preferences = await getNotificationPreferencesByIds(users.map((user) => user.id));
+            const now = new Date();
+
+            return users.flatMap((user) => {
+                const prefs = preferences.get(user.id);
+                if (!prefs?.digest) return [];
+                return [{ userId: user.id, localDate: getLocalDateTime(prefs.timezone, now).date }];
+            });
+        });
+
+        if (due.length === 0) return { success: true, message: 'No digests due this hour' };
+
+        await step.sendEvent('fan-out-digests', due.map((data) => ({ name: 'app/user.digest.due', data })));
+
+        return { success: true, message: `${due.length} digest(s) scheduled` };
+    }
+)
+
+export const sendUserDigest = inngest.createFunction(
+    {
+        id: 'send-user-digest',
+        // One digest per user per local day, even when the manual trigger and the cron overlap
+        idempotency: 'event.data.userId + "-" + event.data.localDate',
+        // Many users can share a delivery hour; this bounds Finnhub and Gemini usage
+        concurrency: { limit: 5 },
+    },
+    { event: 'app/user.digest.due' },
+    async ({ event, step }) => {
+        const { userId, localDate } = event.data;
+
+        // Step #1: Load the user, re-checking the preference in case it changed after scheduling
+        const user = await step.run('get-user', async () => {
+            const [account] = await getUsersByIds([userId]);
+            if (!account || !(await wantsEmail(userId, 'digest'))) return null;
+            return account;
+        });
+
+        if (!user) return { success: true, message: 'Digest skipped: user not found or opted out' };
+
+        // Step #2: Watchlist news, falling back to general market news (max 6 articles)
+        const articles = await step.run('fetch-user-news', async () => {
+            const symbols = await getWatchlistSymbolsByEmail(user.email);
+            const watchlistNews = (await getNews(symbols)).slice(0, 6);
+            return watchlistNews.length > 0 ? watchlistNews : (await getNews()).slice(0, 6);
+        });
+
+        // Step #3: Summarize with AI; a failure here fails the run so Inngest retries it
+        const prompt = NEWS_SUMMARY_EMAIL_PROMPT
+            .replace('{{userProfile}}', formatInvestmentProfile(user.profile))
+            .replace('{{newsData}}', JSON.stringify(articles, null, 2));
+
+        const response = await step.ai.infer('summarize-news', {
+            model: step.ai.models.gemini({ model: 'gemini-2.5-flash-lite' }),
+            body: {
+                contents: [{ role: 'user', parts: [{ text: prompt }] }]
+            }
+        });
+
+        const part = response.candidates?.[0]?.content?.parts?.[0];
+        const newsContent = (part && 'text' in part ? part.text : null) || 'No market news.';
+
+        // Step #4: Send the email, dated in the user's timezone
+        await step.run('send-news-email', () =>
+            sendNewsSummaryEmail({
+                email: user.email,
+                date: formatDigestDate(localDate),
+                newsContent,
+                unsubscribe: getUnsubscribeLinks(user.id, 'digest'),
+            })
+        );
+
+        return { success: true, message: 'Daily news summary sent' };
+    }
+)
+
+const isCooldownElapsed = (alert: AlertForEvaluation, now: number) => {
+    if (!alert.lastTriggeredAt) return true;
+
+    // Still past the threshold since the last email: wait out the cooldown before notifying again
+    return now - new Date(alert.lastTriggeredAt).getTime() >= alert.cooldownMinutes * 60 * 1000;
+}
+
+const isPriceAlertDue = (alert: AlertForEvaluation, price: number, now: number) => {
+    const crossed = alert.alertType === 'upper' ? price >= alert.threshold : price <= alert.threshold;
+    return crossed && isCooldownElapsed(alert, now);
+}
+
+const volumeStatsKey = (symbol: string, averageDays: number) => `${symbol}:${averageDays}`;
+
+type TriggeredAlert = {
+    alert: AlertForEvaluation;
+    price: number;
+    changePercent: number;
+    volume: { currentVolume: number; averageVolume: number } | null;
+};
+
+export const checkPriceAlerts = inngest.createFunction(
+    { id: 'check-price-alerts' },
+    [ { event: 'app/alerts.check' }, { cron: '*/5 * * * *' } ],
     async ({ step }) => {
-        // Step #1: Get all users for news delivery
-        const users = await step.run('get-all-users', getAllUsersForNewsEmail)
+        // Step #1: Load every active alert together with its owner's email
+        // Owners who opted out of alert emails are skipped, and their alerts stay untriggered
+        const alerts = await step.run('get-active-alerts', async () =>
+            filterByEmailPreference(await getActiveAlertsForEvaluation(), (alert) => alert.userId, 'alerts')
+        );
 
-        if(!users || users.length === 0) return { success: false, message: 'No users found for news email' };
+        if (!alerts || alerts.length === 0) return { success: true, message: 'No active alerts to evaluate' };
 
-        // Step #2: For each user, get watchlist symbols -> fetch news (fallback to general)
-        const results = await step.run('fetch-user-news', async () => {
-            const perUser: Array<{ user: UserForNewsEmail; articles: MarketNewsArticle[] }> = [];
-            for (const user of users as UserForNewsEmail[]) {
-                try {
-                    const symbols = await getWatchlistSymbolsByEmail(user.email);
-                    let articles = await getNews(symbols);
-                    // Enforce max 6 articles per user
-                    articles = (articles || []).slice(0, 6);
-                    // If still empty, fallback to general
-                    if (!articles || articles.length === 0) {
-                        articles = await getNews();
-                        articles = (articles || []).slice(0, 6);
-                    }
-                    perUser.push({ user, articles });
-                } catch (e) {
-                    console.error('daily-news: error preparing user news', user.email, e);
-                    perUser.push({ user, articles: [] });
-                }
+        // Step #2: One quote per distinct symbol, paced by the market data client
+        const quotes = await step.run('fetch-alert-quotes', () => getQuotes(alerts.map((alert) => alert.symbol)));
+
+        // Step #3: Daily candles only for volume alerts, once per symbol and averaging window
+        const volumeAlerts = alerts.filter((alert) => alert.alertType === 'volume');
+        const volumeStats = await step.run('fetch-volume-stats', async () => {
+            const stats: Record<string, { currentVolume: number; averageVolume: number }> = {};
+            for (const alert of volumeAlerts) {
+                const key = volumeStatsKey(alert.symbol, alert.averageDays);
+                if (key in stats) continue;
+                const result = await getVolumeStats(alert.symbol, alert.averageDays);
+                if (result) stats[key] = result;
             }
-            return perUser;
+            return stats;
         });
 
-        // Step #3: (placeholder) Summarize news via AI
-        const userNewsSummaries: { user: UserForNewsEmail; newsContent: string | null }[] = [];
+        // Step #4: Keep the alerts whose threshold was crossed and whose cooldown has elapsed
+        const triggered = await step.run('evaluate-alerts', async () => {
+            const now = Date.now();
+            return alerts.flatMap<TriggeredAlert>((alert) => {
+                const quote = quotes[alert.symbol];
+                const price = quote?.c;
+                if (!price || price <= 0) return [];
 
-        for (const { user, articles } of results) {
-                try {
-                    const prompt = NEWS_SUMMARY_EMAIL_PROMPT.replace('{{newsData}}', JSON.stringify(articles, null, 2));
+                if (alert.alertType === 'volume') {
+                    const stats = volumeStats[volumeStatsKey(alert.symbol, alert.averageDays)];
+                    if (!stats) return [];
+                    const spiked = stats.currentVolume >= stats.averageVolume * alert.threshold;
+                    return spiked && isCooldownElapsed(alert, now)
+                        ? [{ alert, price, changePercent: quote?.dp ?? 0, volume: stats }]
+                        : [];
+                }
+
+                return isPriceAlertDue(alert, price, now)
+                    ? [{ alert, price, changePercent: quote?.dp ?? 0, volume: null }]
+                    : [];
+            });
+        });
 
-                    const response = await step.ai.infer(`summarize-news-${user.email}`, {
-                        model: step.ai.models.gemini({ model: 'gemini-2.5-flash-lite' }),
-                        body: {
-                            contents: [{ role: 'user', parts: [{ text:prompt }]}]
+        if (triggered.length === 0) return { success: true, message: 'No alerts triggered' };
+
+        // Step #5: Email each owner and record the trigger so the cooldown starts
+        const sent = await step.run('send-alert-emails', async () => {
+            const timestamp = getFormattedTimestamp();
+            const profiles = await getUserProfilesByIds(triggered.map(({ alert }) => alert.userId));
+            const results = await Promise.all(
+                triggered.map(async ({ alert, price, changePercent, volume }) => {
+                    try {
+                        if (alert.alertType === 'volume' && volume) {
+                            await sendVolumeAlertEmail({
+                                email: alert.email,
+                                symbol: alert.symbol,
+                                company: alert.company,
+                                currentPrice: price,
+                                changePercent,
+                                currentVolume: volume.currentVolume,
+                                averageVolume: volume.averageVolume,
+                                averageDays: alert.averageDays,
+                                multiplier: alert.threshold,
+                                timestamp,
+                                profileNote: formatAlertProfileNote(profiles.get(alert.userId), 'volume'),
+                                unsubscribe: getUnsubscribeLinks(alert.userId, 'alerts'),
+                            });
+                        } else if (alert.alertType !== 'volume') {
+                            await sendPriceAlertEmail({
+                                email: alert.email,
+                                symbol: alert.symbol,
+                                company: alert.company,
+                                alertType: alert.alertType,
+                                currentPrice: price,
+                                targetPrice: alert.threshold,
+                                timestamp,
+                                profileNote: formatAlertProfileNote(profiles.get(alert.userId), alert.alertType),
+                                unsubscribe: getUnsubscribeLinks(alert.userId, 'alerts'),
+                            });
                         }
-                    });
+                        await markAlertTriggered(alert.id, price);
+                        return true;
+                    } catch (e) {
+                        console.error('alerts: failed to send alert', alert.id, e);
+                        return false;
+                    }
+                })
+            );
+            return results.filter(Boolean).length;
+        });
+
+        return { success: true, message: `${sent} alert email(s) sent` };
+    }
+)
 
-                    const part = response.candidates?.[0]?.content?.parts?.[0];
-                    const newsContent = (part && 'text' in part ? part.text : null) || 'No market news.'
+export const refreshSymbolIndex = inngest.createFunction(
+    { id: 'refresh-symbol-index' },
+    [ { event: 'app/symbols.refresh' }, { cron: '0 9 * * *' } ],
+    async ({ step }) => {
+        // Finnhub rebuilds its symbol lists once a day, so a daily mirror keeps search current
+        const counts = await step.run('refresh-symbol-master', () => refreshSymbolMaster(getMarketDataProvider()));
 
-                    userNewsSummaries.push({ user, newsContent });
+        return { success: true, counts };
+    }
+)
+
+export const sendInactiveUserReminders = inngest.createFunction(
+    { id: 'inactive-user-reminders' },
+    [ { event: 'app/inactive.reminders' }, { cron: '0 15 * * 1' } ],
+    async ({ step }) => {
+        const inactiveDays = Number(process.env.INACTIVE_USER_REMINDER_DAYS) || INACTIVE_USER_REMINDER_DEFAULT_DAYS;
+
+        // Step #1: Users idle past the threshold who haven't been reminded during this absence
+        const users = await step.run('get-inactive-users', async () => {
+            const inactive = await filterByEmailPreference(
+                await getInactiveUsersDueReminder(inactiveDays),
+                (item) => item.userId,
+                'engagement'
+            );
+            const lastSeen = new Map(inactive.map((item) => [item.userId, item.lastSeenAt]));
+            const accounts = await getUsersByIds(inactive.map((item) => item.userId));
+            return accounts.flatMap((user) => {
+                const lastSeenAt = lastSeen.get(user.id);
+                return lastSeenAt ? [{ id: user.id, email: user.email, name: user.name, lastSeenAt }] : [];
+            });
+        });
+
+        if (users.length === 0) return { success: true, message: 'No inactive users to remind' };
+
+        // Step #2: One step per user, so a retry never re-sends to users already reminded
+        let sent = 0;
+        for (const user of users) {
+            const delivered = await step.run(`send-inactive-reminder-${user.id}`, async () => {
+                try {
+                    const since = new Date(user.lastSeenAt);
+                    const watchlist = await getWatchlistItemsByUserId(user.id);
+                    const changes = watchlist.length
+                        ? await getPriceChangesSince(watchlist.map((item) => item.symbol), since)
+                        : {};
+
+                    const moves = watchlist
+                        .flatMap((item) => (changes[item.symbol] ? [{ ...item, ...changes[item.symbol] }] : []))
+                        .sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent))
+                        .slice(0, INACTIVE_USER_REMINDER_MAX_STOCKS);
+
+                    await sendInactiveUserReminderEmail({
+                        email: user.email,
+                        name: user.name,
+                        awaySince: since.toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' }),
+                        watchlistSize: watchlist.length,
+                        moves,
+                        dashboardUrl: getAppUrl('/'),
+                        unsubscribe: getUnsubscribeLinks(user.id, 'engagement'),
+                    });
+                    await markReminderSent(user.id);
+                    return true;
                 } catch (e) {
-                    console.error('Failed to summarize news for : ', user.email);
-                    userNewsSummaries.push({ user, newsContent: null });
+                    console.error('inactive reminders: failed to send', user.id, e);
+                    return false;
                 }
-            }
+            });
+            if (delivered) sent++;
+        }
 
-        // Step #4: (placeholder) Send the emails
-        await step.run('send-news-emails', async () => {
-                await Promise.all(
-                    userNewsSummaries.map(async ({ user, newsContent}) => {
-                        if(!newsContent) return false;
+        return { success: true, message: `${sent} reminder email(s) sent` };
+    }
+)
+
+export const retryFailedEmail = inngest.createFunction(
+    // A log entry is retried by one run only, however many times the event is sent
+    { id: 'retry-failed-email', idempotency: 'event.data.logId' },
+    { event: 'app/email.failed' },
+    async ({ event, step }) => {
+        const { logId } = event.data;
+
+        // Each resend waits longer than the last; steps keep the schedule across deploys and restarts
+        for (const [index, delay] of EMAIL_RETRY_DELAYS.entries()) {
+            await step.sleep(`wait-before-retry-${index + 1}`, delay);
 
-                        return await sendNewsSummaryEmail({ email: user.email, date: getFormattedTodayDate(), newsContent })
-                    })
+            const attempt = await step.run(`retry-${index + 1}`, () => resendLoggedEmail(logId));
+            if (attempt.status === 'skipped') return { success: true, message: 'Email no longer pending a retry' };
+
+            // A separate step, so a failed log write is retried without sending the email again
+            await step.run(`record-retry-${index + 1}`, () =>
+                recordRetryOutcome(
+                    logId,
+                    attempt.status === 'sent'
+                        ? { messageId: attempt.messageId }
+                        : { error: attempt.error, final: index === EMAIL_RETRY_DELAYS.length - 1 }
                 )
-            })
+            );
 
-        return { success: true, message: 'Daily news summary emails sent successfully' }
+            if (attempt.status === 'sent') return { success: true, message: `Email sent on retry ${index + 1}` };
+        }
+
+        return { success: false, message: `Email still failing after ${EMAIL_RETRY_DELAYS.length} retries` };
     }
-)
\ No newline at end of file
+)
@@ -50,9 +50,14 @@ Ejemplos de salidas personalizadas (mostrando personalización evidente con DOS
 
 export const NEWS_SUMMARY_EMAIL_PROMPT = `Genera contenido HTML para un correo de resumen de noticias del mercado que se insertará en la plantilla NEWS_SUMMARY_EMAIL_TEMPLATE en el marcador de posición {{newsContent}}.
 
+Perfil del inversor que recibirá el correo:
+{{userProfile}}
+
 Datos de noticias a resumir:
 {{newsData}}
 
+Usa el perfil para priorizar y enfocar el resumen (industria preferida, tolerancia al riesgo, objetivos), sin mencionarlo explícitamente ni inventar datos que no estén en las noticias.
+
 REQUISITOS CRÍTICOS DE FORMATO:
 - Devuelve ÚNICAMENTE contenido HTML limpio, SIN markdown, SIN bloques de código, SIN comillas invertidas
 - Estructura el contenido con secciones claras usando encabezados HTML y párrafos adecuados
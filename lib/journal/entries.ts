@@ -0,0 +1,58 @@
+import { parseDateInput } from '@/lib/utils';
+
+const parseOptionalNumber = (value: string | undefined) => (value?.trim() ? Number(value) : null);
+const parseOptionalDate = (value: string | undefined) => (value?.trim() ? parseDateInput(value) : null);
+
+export const parseJournalEntryData = (data: JournalEntryFormData) => {
+  const symbol = data.symbol?.trim().toUpperCase();
+  const entryPrice = Number(data.entryPrice);
+  const quantity = Number(data.quantity);
+  const fees = parseOptionalNumber(data.fees) ?? 0;
+  const exitPrice = parseOptionalNumber(data.exitPrice);
+  const stopPrice = parseOptionalNumber(data.stopPrice);
+  const entryAt = parseDateInput(data.entryAt);
+  const exitAt = parseOptionalDate(data.exitAt);
+
+  if (!symbol) return { error: 'Symbol is required' } as const;
+  if (data.side !== 'long' && data.side !== 'short') return { error: 'Side must be long or short' } as const;
+  if (!Number.isFinite(entryPrice) || entryPrice <= 0) return { error: 'Entry price must be a positive number' } as const;
+  if (!Number.isFinite(quantity) || quantity <= 0) return { error: 'Quantity must be a positive number' } as const;
+  if (!Number.isFinite(fees) || fees < 0) return { error: 'Fees cannot be negative' } as const;
+  if (Number.isNaN(entryAt.getTime())) return { error: 'Entry time is required' } as const;
+
+  if (exitPrice !== null && (!Number.isFinite(exitPrice) || exitPrice <= 0)) {
+    return { error: 'Exit price must be a positive number' } as const;
+  }
+  if (stopPrice !== null) {
+    if (!Number.isFinite(stopPrice) || stopPrice <= 0) return { error: 'Stop price must be a positive number' } as const;
+    // A stop on the wrong side of the entry can't define the trade's risk
+    if (data.side === 'long' ? stopPrice >= entryPrice : stopPrice <= entryPrice) {
+      return { error: `Stop price must be ${data.side === 'long' ? 'below' : 'above'} the entry price` } as const;
+    }
+  }
+  if ((exitPrice === null) !== (exitAt === null)) {
+    return { error: 'Exit price and exit time must be set together' } as const;
+  }
+  if (exitAt && (Number.isNaN(exitAt.getTime()) || exitAt < entryAt)) {
+    return { error: 'Exit time must be after entry time' } as const;
+  }
+
+  return {
+    value: {
+      symbol,
+      side: data.side,
+      entryPrice,
+      exitPrice,
+      stopPrice,
+      entryAt,
+      exitAt,
+      quantity,
+      fees,
+      strategy: data.strategy?.trim() ?? '',
+      thesis: data.thesis ?? '',
+      emotions: data.emotions ?? '',
+      lessons: data.lessons ?? '',
+      notes: data.notes ?? '',
+    },
+  } as const;
+};
@@ -0,0 +1,114 @@
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Upper bounds are exclusive; the last bucket catches everything above 3R
+const R_MULTIPLE_BUCKETS: { label: string; max: number }[] = [
+  { label: '< -2R', max: -2 },
+  { label: '-2R to -1R', max: -1 },
+  { label: '-1R to 0R', max: 0 },
+  { label: '0R to 1R', max: 1 },
+  { label: '1R to 2R', max: 2 },
+  { label: '2R to 3R', max: 3 },
+  { label: '≥ 3R', max: Infinity },
+];
+
+type ClosedTrade = JournalEntryData & { pnl: number; exitAt: string };
+
+const isClosed = (entry: JournalEntryData): entry is ClosedTrade => entry.pnl !== null && entry.exitAt !== null;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const average = (values: number[]) => (values.length ? sum(values) / values.length : 0);
+
+// Return on the capital committed at entry, so trades of different sizes are comparable
+const returnPercent = (trade: ClosedTrade) => (trade.pnl / (trade.entryPrice * trade.quantity)) * 100;
+
+const buildBreakdown = (trades: ClosedTrade[], getLabel: (trade: ClosedTrade) => string, order?: string[]) => {
+  const groups = new Map<string, ClosedTrade[]>();
+  for (const trade of trades) {
+    const label = getLabel(trade);
+    groups.set(label, [...(groups.get(label) ?? []), trade]);
+  }
+
+  const rows: JournalBreakdownRow[] = [...groups.entries()].map(([label, group]) => ({
+    label,
+    trades: group.length,
+    winRate: (group.filter((trade) => trade.pnl > 0).length / group.length) * 100,
+    pnl: sum(group.map((trade) => trade.pnl)),
+    averageReturnPercent: average(group.map(returnPercent)),
+  }));
+
+  // Calendar breakdowns keep their natural order; the rest rank by P&L
+  return order
+    ? rows.sort((a, b) => order.indexOf(a.label) - order.indexOf(b.label))
+    : rows.sort((a, b) => b.pnl - a.pnl);
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+// Entry weekday and hour as the trader saw them, e.g. a 09:30 New York entry is Monday 09:00
+const createLocalTimeReader = (timezone: string) => {
+  const formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'long', hour: '2-digit', hourCycle: 'h23' });
+
+  return (iso: string) => {
+    const parts = Object.fromEntries(formatter.formatToParts(new Date(iso)).map((part) => [part.type, part.value]));
+    return { weekday: parts.weekday, hour: formatHour(Number(parts.hour)) };
+  };
+};
+
+// Weekday and hour are bucketed in `timezone`, so the numbers don't depend on where the server runs
+export const computeJournalStats = (entries: JournalEntryData[], timezone = 'UTC'): JournalStats => {
+  const closed = entries.filter(isClosed).sort((a, b) => a.exitAt.localeCompare(b.exitAt));
+  const wins = closed.filter((trade) => trade.pnl > 0);
+  const losses = closed.filter((trade) => trade.pnl < 0);
+
+  const grossProfit = sum(wins.map((trade) => trade.pnl));
+  const grossLoss = Math.abs(sum(losses.map((trade) => trade.pnl)));
+  const winRate = closed.length ? (wins.length / closed.length) * 100 : 0;
+  const averageWin = average(wins.map((trade) => trade.pnl));
+  const averageLoss = average(losses.map((trade) => trade.pnl));
+  const totalPnl = sum(closed.map((trade) => trade.pnl));
+
+  const equityCurve: JournalEquityPoint[] = [];
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const trade of closed) {
+    equity += trade.pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    equityCurve.push({ date: trade.exitAt, equity });
+  }
+
+  const rMultiples = closed.flatMap((trade) => (trade.rMultiple === null ? [] : [trade.rMultiple]));
+  const rMultipleDistribution = R_MULTIPLE_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+  for (const r of rMultiples) {
+    rMultipleDistribution[R_MULTIPLE_BUCKETS.findIndex((bucket) => r < bucket.max)].count += 1;
+  }
+
+  const hours = Array.from({ length: 24 }, (_, hour) => formatHour(hour));
+  const readLocalTime = createLocalTimeReader(timezone);
+
+  return {
+    closedTrades: closed.length,
+    openTrades: entries.length - closed.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate,
+    totalPnl,
+    averageWin,
+    averageLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    // Win rate × average win + loss rate × average loss, which reduces to the mean P&L per trade
+    expectancy: closed.length ? totalPnl / closed.length : 0,
+    averageReturnPercent: average(closed.map(returnPercent)),
+    maxDrawdown,
+    averageRMultiple: rMultiples.length ? average(rMultiples) : null,
+    rMultipleTrades: rMultiples.length,
+    rMultipleDistribution,
+    byStrategy: buildBreakdown(closed, (trade) => trade.strategy || 'Untagged'),
+    bySymbol: buildBreakdown(closed, (trade) => trade.symbol),
+    byWeekday: buildBreakdown(closed, (trade) => readLocalTime(trade.entryAt).weekday, WEEKDAYS),
+    byHour: buildBreakdown(closed, (trade) => readLocalTime(trade.entryAt).hour, hours),
+    timezone,
+    equityCurve,
+  };
+};
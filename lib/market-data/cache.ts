@@ -0,0 +1,110 @@
+import { connectToDatabase } from '@/database/mongoose';
+import { MarketDataCache } from '@/database/models/marketDataCache.model';
+import { MARKET_DATA_CACHE_TTLS } from '@/lib/constants';
+import type { MarketDataProvider } from '@/lib/market-data/types';
+
+type CachedEntry<T> = { data: T; isStale: boolean };
+
+// Refreshes already running in this instance, so a burst of stale reads triggers one fetch
+const refreshing = new Set<string>();
+
+const readEntry = async <T>(key: string): Promise<CachedEntry<T> | null> => {
+  try {
+    await connectToDatabase();
+    const entry = await MarketDataCache.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+    if (!entry) return null;
+    return { data: entry.data as T, isStale: entry.staleAt <= new Date() };
+  } catch (err) {
+    console.error('market data cache read error:', key, err);
+    return null;
+  }
+};
+
+const writeEntry = async (key: string, kind: MarketDataCacheKind, data: unknown) => {
+  const ttl = MARKET_DATA_CACHE_TTLS[kind];
+  const now = Date.now();
+
+  try {
+    await connectToDatabase();
+    await MarketDataCache.updateOne(
+      { key },
+      {
+        kind,
+        data,
+        fetchedAt: new Date(now),
+        staleAt: new Date(now + ttl.freshSeconds * 1000),
+        expiresAt: new Date(now + ttl.maxAgeSeconds * 1000),
+      },
+      { upsert: true }
+    );
+  } catch (err) {
+    console.error('market data cache write error:', key, err);
+  }
+};
+
+const fetchAndStore = async <T>(key: string, kind: MarketDataCacheKind, load: () => Promise<T>) => {
+  const data = await load();
+  await writeEntry(key, kind, data);
+  return data;
+};
+
+// Stale-while-revalidate: fresh entries are returned directly, stale ones are returned
+// while a background refresh runs, and misses are fetched inline. With requireFresh a
+// stale entry only serves as a fallback when the provider call fails.
+const cached = async <T>(
+  key: string,
+  kind: MarketDataCacheKind,
+  load: () => Promise<T>,
+  requireFresh = false
+): Promise<T> => {
+  const entry = await readEntry<T>(key);
+  if (entry && !entry.isStale) return entry.data;
+
+  if (entry && !requireFresh) {
+    if (!refreshing.has(key)) {
+      refreshing.add(key);
+      fetchAndStore(key, kind, load)
+        .catch((err) => console.error('market data cache refresh error:', key, err))
+        .finally(() => refreshing.delete(key));
+    }
+    return entry.data;
+  }
+
+  try {
+    return await fetchAndStore(key, kind, load);
+  } catch (err) {
+    if (entry) return entry.data;
+    throw err;
+  }
+};
+
+export const withMongoCache = (provider: MarketDataProvider): MarketDataProvider => {
+  const normalize = (symbol: string) => symbol.trim().toUpperCase();
+
+  return {
+    name: `${provider.name}+mongo-cache`,
+
+    search: (query) => cached(`search:${query.trim().toLowerCase()}`, 'search', () => provider.search(query)),
+
+    // Exchange listings are mirrored into their own collection by the symbol refresh job
+    symbols: (exchange) => provider.symbols(exchange),
+
+    quote: (symbol, options) =>
+      cached(`quote:${normalize(symbol)}`, 'quote', () => provider.quote(symbol, options), options?.fresh),
+
+    profile: (symbol) => cached(`profile:${normalize(symbol)}`, 'profile', () => provider.profile(symbol)),
+
+    // Candle windows end at "now", so keys would never repeat; they go straight through
+    candles: (symbol, resolution, from, to) => provider.candles(symbol, resolution, from, to),
+
+    companyNews: (symbol, range) =>
+      cached(`company-news:${normalize(symbol)}:${range.from}:${range.to}`, 'news', () =>
+        provider.companyNews(symbol, range)
+      ),
+
+    generalNews: (category = 'general') =>
+      cached(`news:${category}`, 'news', () => provider.generalNews(category)),
+
+    metrics: (symbol) => cached(`metrics:${normalize(symbol)}`, 'metrics', () => provider.metrics(symbol)),
+  };
+};
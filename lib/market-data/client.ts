@@ -0,0 +1,148 @@
+import { delay } from '@/lib/utils';
+
+type RateLimitedClientConfig = {
+  // Sustained rate the bucket refills at
+  requestsPerMinute: number;
+  // Bucket size: how many requests may go out back to back before pacing kicks in
+  burst: number;
+  maxRetries: number;
+  baseBackoffMs: number;
+  // Responses kept for revalidating reads; the oldest entry is dropped past this many
+  maxCachedResponses?: number;
+};
+
+export type ClientMetrics = {
+  // Requests that actually hit the network, retries included
+  requests: number;
+  // Revalidating reads answered from the response cache without a token or a request
+  cacheHits: number;
+  // Calls that joined an identical in-flight request instead of sending their own
+  coalesced: number;
+  // Calls that had to wait for a token
+  throttled: number;
+  retries: number;
+  // 429 responses received from the vendor
+  rateLimited: number;
+  failures: number;
+};
+
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Full jitter keeps many callers that failed together from retrying in lockstep
+const backoffMs = (attempt: number, baseMs: number) => Math.random() * baseMs * 2 ** attempt;
+
+const retryAfterMs = (res: Response) => {
+  const header = res.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export const createRateLimitedClient = (config: RateLimitedClientConfig) => {
+  const refillPerMs = config.requestsPerMinute / 60_000;
+  let tokens = config.burst;
+  let lastRefill = Date.now();
+
+  const inFlight = new Map<string, Promise<unknown>>();
+  // Kept here rather than in the Next data cache, which can't tell us whether a fetch reached the
+  // vendor; only real upstream calls may spend a rate-limit token or count as requests
+  const responses = new Map<string, { value: unknown; expiresAt: number }>();
+  const maxCachedResponses = config.maxCachedResponses ?? 500;
+  const metrics: ClientMetrics = {
+    requests: 0,
+    cacheHits: 0,
+    coalesced: 0,
+    throttled: 0,
+    retries: 0,
+    rateLimited: 0,
+    failures: 0,
+  };
+
+  // Tokens may go negative: each caller reserves its slot up front and sleeps until the
+  // bucket has refilled past it, which keeps waiters in arrival order without a queue
+  const acquire = async () => {
+    const now = Date.now();
+    tokens = Math.min(config.burst, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+    tokens -= 1;
+
+    if (tokens < 0) {
+      metrics.throttled += 1;
+      await delay(Math.ceil(-tokens / refillPerMs));
+    }
+  };
+
+  const remember = (url: string, value: unknown, revalidateSeconds: number) => {
+    responses.delete(url);
+    responses.set(url, { value, expiresAt: Date.now() + revalidateSeconds * 1000 });
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (responses.size > maxCachedResponses) responses.delete(responses.keys().next().value as string);
+  };
+
+  const send = async <T>(url: string): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire();
+      metrics.requests += 1;
+
+      let res: Response;
+      try {
+        res = await fetch(url, { cache: 'no-store' });
+      } catch (err) {
+        if (attempt >= config.maxRetries) {
+          metrics.failures += 1;
+          throw err;
+        }
+        metrics.retries += 1;
+        await delay(backoffMs(attempt, config.baseBackoffMs));
+        continue;
+      }
+
+      if (res.ok) return (await res.json()) as T;
+
+      if (res.status === 429) metrics.rateLimited += 1;
+      if (!isRetryableStatus(res.status) || attempt >= config.maxRetries) {
+        metrics.failures += 1;
+        const text = await res.text().catch(() => '');
+        throw new Error(`Fetch failed ${res.status}: ${text}`);
+      }
+
+      metrics.retries += 1;
+      await delay(retryAfterMs(res) ?? backoffMs(attempt, config.baseBackoffMs));
+    }
+  };
+
+  const fetchJSON = <T>(url: string, revalidateSeconds?: number): Promise<T> => {
+    if (revalidateSeconds) {
+      const cached = responses.get(url);
+      if (cached && cached.expiresAt > Date.now()) {
+        metrics.cacheHits += 1;
+        return Promise.resolve(cached.value as T);
+      }
+    }
+
+    // Cached and uncached reads of the same URL can differ, so they don't share a request
+    const key = `${revalidateSeconds ?? 'no-store'} ${url}`;
+    const pending = inFlight.get(key);
+    if (pending) {
+      metrics.coalesced += 1;
+      return pending as Promise<T>;
+    }
+
+    const request = send<T>(url)
+      .then((value) => {
+        if (revalidateSeconds) remember(url, value, revalidateSeconds);
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return request;
+  };
+
+  return {
+    fetchJSON,
+    getMetrics: (): ClientMetrics => ({ ...metrics }),
+  };
+};
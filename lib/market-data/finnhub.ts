@@ -0,0 +1,97 @@
+import { createRateLimitedClient } from '@/lib/market-data/client';
+import { emptyCandles, type Candles, type MarketDataProvider } from '@/lib/market-data/types';
+
+const DEFAULT_BASE_URL = 'https://finnhub.io/api/v1';
+
+type FinnhubProviderConfig = {
+  token: string;
+  baseUrl?: string;
+};
+
+// One client per server instance so every caller draws from the same budget. The free tier
+// allows 60 calls/minute; 50/minute plus a burst of 10 stays under it even from a full bucket.
+const finnhubClient = createRateLimitedClient({
+  requestsPerMinute: Number(process.env.FINNHUB_REQUESTS_PER_MINUTE) || 50,
+  burst: 10,
+  maxRetries: 3,
+  baseBackoffMs: 1000,
+});
+
+export const fetchJSON = finnhubClient.fetchJSON;
+export const getFinnhubMetrics = finnhubClient.getMetrics;
+
+export const fromFinnhubCandles = (data: FinnhubCandleResponse | null): Candles => {
+  if (data?.s !== 'ok') return emptyCandles();
+
+  return {
+    timestamps: data.t ?? [],
+    open: data.o ?? [],
+    high: data.h ?? [],
+    low: data.l ?? [],
+    close: data.c ?? [],
+    volume: data.v ?? [],
+  };
+};
+
+export const createFinnhubProvider = ({ token, baseUrl = DEFAULT_BASE_URL }: FinnhubProviderConfig): MarketDataProvider => {
+  const request = <T>(path: string, params: Record<string, string | number>, revalidateSeconds?: number) => {
+    if (!token) return Promise.reject(new Error('FINNHUB API key is not configured'));
+
+    const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+    query.set('token', token);
+    return fetchJSON<T>(`${baseUrl}${path}?${query.toString()}`, revalidateSeconds);
+  };
+
+  const normalize = (symbol: string) => symbol.trim().toUpperCase();
+
+  return {
+    name: 'finnhub',
+
+    async search(query) {
+      const data = await request<FinnhubSearchResponse>('/search', { q: query.trim() }, 1800);
+      return Array.isArray(data?.result) ? data.result : [];
+    },
+
+    async symbols(exchange) {
+      const data = await request<FinnhubStockSymbol[]>('/stock/symbol', { exchange: normalize(exchange) });
+      return Array.isArray(data) ? data : [];
+    },
+
+    async quote(symbol, options) {
+      return request<QuoteData>('/quote', { symbol: normalize(symbol) }, options?.fresh ? undefined : 60);
+    },
+
+    async profile(symbol) {
+      const profile = await request<ProfileData>('/stock/profile2', { symbol: normalize(symbol) }, 3600);
+      // Unknown symbols come back as an empty object
+      return profile && Object.keys(profile).length > 0 ? profile : null;
+    },
+
+    async candles(symbol, resolution, from, to) {
+      const data = await request<FinnhubCandleResponse>(
+        '/stock/candle',
+        { symbol: normalize(symbol), resolution, from, to },
+        300
+      );
+      return fromFinnhubCandles(data);
+    },
+
+    async companyNews(symbol, range) {
+      const articles = await request<RawNewsArticle[]>(
+        '/company-news',
+        { symbol: normalize(symbol), from: range.from, to: range.to },
+        300
+      );
+      return articles || [];
+    },
+
+    async generalNews(category = 'general') {
+      const articles = await request<RawNewsArticle[]>('/news', { category }, 300);
+      return articles || [];
+    },
+
+    async metrics(symbol) {
+      return request<FinancialsData>('/stock/metric', { symbol: normalize(symbol), metric: 'all' }, 3600);
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fromFinnhubCandles } from '@/lib/market-data/finnhub';
+import type { MarketDataProvider } from '@/lib/market-data/types';
+
+// Fixtures are raw Finnhub responses, so they can be recorded straight from the API:
+//   search.json, symbols/<EXCHANGE>.json, news/<category>.json, quotes/<SYMBOL>.json, profiles/<SYMBOL>.json,
+//   metrics/<SYMBOL>.json, candles/<SYMBOL>.json, company-news/<SYMBOL>.json
+export const createFixtureProvider = (directory: string): MarketDataProvider => {
+  const readFixture = async <T>(...segments: string[]): Promise<T | null> => {
+    try {
+      return JSON.parse(await readFile(path.join(directory, ...segments), 'utf8')) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  };
+
+  const symbolFile = (symbol: string) => `${symbol.trim().toUpperCase()}.json`;
+
+  return {
+    name: 'fixture',
+
+    async search(query) {
+      const results = (await readFixture<FinnhubSearchResult[]>('search.json')) ?? [];
+      const needle = query.trim().toLowerCase();
+      return results.filter(
+        (result) => result.symbol.toLowerCase().includes(needle) || result.description.toLowerCase().includes(needle)
+      );
+    },
+
+    async symbols(exchange) {
+      return (await readFixture<FinnhubStockSymbol[]>('symbols', symbolFile(exchange))) ?? [];
+    },
+
+    quote: (symbol) => readFixture<QuoteData>('quotes', symbolFile(symbol)),
+
+    profile: (symbol) => readFixture<ProfileData>('profiles', symbolFile(symbol)),
+
+    // Recorded series are returned whole; filtering by the requested window would leave
+    // old fixtures empty as the calendar moves on
+    async candles(symbol) {
+      return fromFinnhubCandles(await readFixture<FinnhubCandleResponse>('candles', symbolFile(symbol)));
+    },
+
+    async companyNews(symbol) {
+      return (await readFixture<RawNewsArticle[]>('company-news', symbolFile(symbol))) ?? [];
+    },
+
+    async generalNews(category = 'general') {
+      return (await readFixture<RawNewsArticle[]>('news', `${category}.json`)) ?? [];
+    },
+
+    metrics: (symbol) => readFixture<FinancialsData>('metrics', symbolFile(symbol)),
+  };
+};
@@ -0,0 +1,37 @@
+import path from 'path';
+import { createFinnhubProvider, getFinnhubMetrics } from '@/lib/market-data/finnhub';
+import { createFixtureProvider } from '@/lib/market-data/fixture';
+import { withMongoCache } from '@/lib/market-data/cache';
+import type { MarketDataProvider } from '@/lib/market-data/types';
+
+let provider: MarketDataProvider | null = null;
+
+// MARKET_DATA_PROVIDER=fixture serves recorded responses from MARKET_DATA_FIXTURES_DIR
+// (default ./fixtures/market-data) so the app runs without network access or an API key
+export const getMarketDataProvider = (): MarketDataProvider => {
+  if (provider) return provider;
+
+  if (process.env.MARKET_DATA_PROVIDER === 'fixture') {
+    const directory = process.env.MARKET_DATA_FIXTURES_DIR ?? path.join(process.cwd(), 'fixtures', 'market-data');
+    provider = createFixtureProvider(directory);
+  } else {
+    const finnhub = createFinnhubProvider({
+      token: process.env.FINNHUB_API_KEY ?? process.env.NEXT_PUBLIC_FINNHUB_API_KEY ?? '',
+      baseUrl: process.env.FINNHUB_BASE_URL || undefined,
+    });
+    // Shared across instances and Inngest runs; MARKET_DATA_CACHE=off talks to Finnhub directly
+    provider = process.env.MARKET_DATA_CACHE === 'off' ? finnhub : withMongoCache(finnhub);
+  }
+
+  return provider;
+};
+
+// Lets tests and scripts swap in their own implementation
+export const setMarketDataProvider = (next: MarketDataProvider | null) => {
+  provider = next;
+};
+
+export { getFinnhubMetrics };
+export { getSymbolIndex, refreshSymbolMaster } from '@/lib/market-data/symbols';
+export type { ClientMetrics } from '@/lib/market-data/client';
+export type { MarketDataProvider, Candles, CandleResolution, DateRange } from '@/lib/market-data/types';
@@ -0,0 +1,115 @@
+export type SymbolIndex = {
+  size: number;
+  search(query: string, limit?: number): FinnhubSearchResult[];
+};
+
+type IndexedSymbol = {
+  result: FinnhubSearchResult;
+  ticker: string;
+  displayTicker: string;
+  nameTokens: string[];
+  name: string;
+  boost: number;
+};
+
+const tokenize = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// True when a and b differ by at most one insertion, deletion, substitution or adjacent swap
+const isWithinOneEdit = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+
+  if (a.length === b.length) {
+    if (a.slice(i + 1) === b.slice(i + 1)) return true;
+    return a[i] === b[i + 1] && a[i + 1] === b[i] && a.slice(i + 2) === b.slice(i + 2);
+  }
+
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+};
+
+const scoreTicker = (query: string, entry: IndexedSymbol) => {
+  const tickers = entry.ticker === entry.displayTicker ? [entry.ticker] : [entry.ticker, entry.displayTicker];
+  let best = 0;
+
+  for (const ticker of tickers) {
+    if (ticker === query) return 100;
+    // Shorter tickers first: "MS" should beat "MSTR" for "ms"
+    if (ticker.startsWith(query)) best = Math.max(best, 70 - Math.min(ticker.length - query.length, 10));
+    else if (query.length >= 3 && isWithinOneEdit(query, ticker)) best = Math.max(best, 30);
+  }
+
+  return best;
+};
+
+// Every query token has to land on some word of the company name, by prefix or with one typo
+const scoreName = (queryTokens: string[], rawQuery: string, entry: IndexedSymbol) => {
+  if (queryTokens.length === 0) return 0;
+
+  let total = 0;
+  for (const token of queryTokens) {
+    let best = 0;
+    for (const word of entry.nameTokens) {
+      if (word === token) best = Math.max(best, 50);
+      else if (word.startsWith(token)) best = Math.max(best, 40);
+      else if (token.length >= 4 && (isWithinOneEdit(token, word) || isWithinOneEdit(token, word.slice(0, token.length)))) {
+        best = Math.max(best, 15);
+      }
+    }
+    // Substrings only count for longer queries, or "ms" would match every "...platforms"
+    if (best === 0) return rawQuery.length >= 3 && entry.name.includes(rawQuery) ? 20 : 0;
+    total += best;
+  }
+
+  const leading = entry.nameTokens[0]?.startsWith(queryTokens[0]) ? 10 : 0;
+  return total / queryTokens.length + leading;
+};
+
+// In-memory ranking over a symbol master. Matches on the ticker score highest, then
+// company-name words; popular symbols and plain common stock get nudged up so "app"
+// surfaces Apple ahead of obscure tickers that merely start with those letters.
+export const createSymbolIndex = (entries: FinnhubSearchResult[], popularSymbols: string[] = []): SymbolIndex => {
+  const popularity = new Map(popularSymbols.map((symbol, i) => [symbol.toUpperCase(), 25 * (1 - i / popularSymbols.length)]));
+
+  const indexed: IndexedSymbol[] = entries.map((result) => {
+    const symbol = result.symbol.toUpperCase();
+    const typeBoost = result.type === 'Common Stock' ? 5 : result.type === 'ETP' ? 2 : 0;
+    return {
+      result,
+      ticker: symbol.toLowerCase(),
+      displayTicker: (result.displaySymbol || symbol).toLowerCase(),
+      nameTokens: tokenize(result.description),
+      name: result.description.toLowerCase(),
+      boost: (popularity.get(symbol) ?? 0) + typeBoost,
+    };
+  });
+
+  return {
+    size: indexed.length,
+
+    search(query, limit = 15) {
+      const raw = query.trim().toLowerCase();
+      if (!raw) return [];
+
+      const compact = raw.replace(/\s+/g, '');
+      const queryTokens = tokenize(raw);
+
+      const matches: { entry: IndexedSymbol; score: number }[] = [];
+      for (const entry of indexed) {
+        const base = Math.max(scoreTicker(compact, entry), scoreName(queryTokens, raw, entry));
+        if (base > 0) matches.push({ entry, score: base + entry.boost });
+      }
+
+      matches.sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.entry.ticker.length - b.entry.ticker.length ||
+          a.entry.ticker.localeCompare(b.entry.ticker)
+      );
+
+      return matches.slice(0, limit).map(({ entry }) => entry.result);
+    },
+  };
+};
@@ -0,0 +1,104 @@
+import { connectToDatabase } from '@/database/mongoose';
+import { StockSymbol } from '@/database/models/stockSymbol.model';
+import { POPULAR_STOCK_SYMBOLS, SYMBOL_INDEX_EXCHANGES, SYMBOL_INDEX_RELOAD_SECONDS } from '@/lib/constants';
+import { createSymbolIndex, type SymbolIndex } from '@/lib/market-data/symbol-index';
+import type { MarketDataProvider } from '@/lib/market-data/types';
+
+const UPSERT_BATCH_SIZE = 1000;
+
+let index: SymbolIndex | null = null;
+let loadedAt = 0;
+let loading: Promise<SymbolIndex | null> | null = null;
+
+// An empty symbol master is re-checked sooner so a first refresh shows up quickly
+const EMPTY_RECHECK_MS = 60 * 1000;
+
+// Pulls each exchange's listing from the provider and mirrors it into Mongo. Exchanges
+// that fail keep their previous rows, so one bad response never empties the index.
+export const refreshSymbolMaster = async (
+  provider: MarketDataProvider,
+  exchanges: string[] = SYMBOL_INDEX_EXCHANGES
+): Promise<Record<string, number>> => {
+  await connectToDatabase();
+  const counts: Record<string, number> = {};
+
+  for (const exchange of exchanges) {
+    const refreshedAt = new Date();
+    const listing = (await provider.symbols(exchange)).filter((row) => row.symbol);
+    if (listing.length === 0) {
+      console.warn('symbol master: empty listing, keeping previous rows for', exchange);
+      continue;
+    }
+
+    for (let i = 0; i < listing.length; i += UPSERT_BATCH_SIZE) {
+      await StockSymbol.bulkWrite(
+        listing.slice(i, i + UPSERT_BATCH_SIZE).map((row) => ({
+          updateOne: {
+            filter: { exchange, symbol: row.symbol.toUpperCase() },
+            update: {
+              displaySymbol: row.displaySymbol || row.symbol,
+              description: row.description ?? '',
+              type: row.type ?? '',
+              currency: row.currency,
+              mic: row.mic,
+              refreshedAt,
+            },
+            upsert: true,
+          },
+        })),
+        { ordered: false }
+      );
+    }
+
+    await StockSymbol.deleteMany({ exchange, refreshedAt: { $lt: refreshedAt } });
+    counts[exchange] = listing.length;
+  }
+
+  // Drop this instance's copy so the next search sees the new listing
+  index = null;
+  loadedAt = 0;
+  return counts;
+};
+
+const loadIndex = async (): Promise<SymbolIndex | null> => {
+  await connectToDatabase();
+  const rows = await StockSymbol.find({}, { symbol: 1, displaySymbol: 1, description: 1, type: 1, _id: 0 }).lean();
+  if (rows.length === 0) return null;
+
+  return createSymbolIndex(
+    rows.map((row) => ({
+      symbol: row.symbol,
+      displaySymbol: row.displaySymbol,
+      description: row.description,
+      type: row.type,
+    })),
+    POPULAR_STOCK_SYMBOLS
+  );
+};
+
+// The index lives in memory per server instance. An expired copy keeps answering while a
+// reload runs; null means the symbol master hasn't been populated yet.
+export const getSymbolIndex = async (): Promise<SymbolIndex | null> => {
+  const maxAgeMs = index ? SYMBOL_INDEX_RELOAD_SECONDS * 1000 : EMPTY_RECHECK_MS;
+  if (loadedAt && Date.now() - loadedAt < maxAgeMs) return index;
+
+  if (!loading) {
+    loading = loadIndex()
+      .then((next) => {
+        index = next;
+        loadedAt = Date.now();
+        return next;
+      })
+      .catch((err) => {
+        console.error('symbol index load error:', err);
+        // Back off instead of retrying on every keystroke while Mongo is unreachable
+        loadedAt = Date.now();
+        return index;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+
+  return index ?? loading;
+};
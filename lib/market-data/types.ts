@@ -0,0 +1,37 @@
+export type CandleResolution = '1' | '5' | '15' | '30' | '60' | 'D' | 'W' | 'M';
+
+export type Candles = {
+  timestamps: number[];
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+};
+
+export type DateRange = {
+  from: string;
+  to: string;
+};
+
+export type QuoteOptions = {
+  // Skip any caching layer, e.g. when evaluating alerts
+  fresh?: boolean;
+};
+
+// Everything the app needs from a market data vendor. Methods reject on transport or
+// vendor errors; "no data" is an empty result rather than an error.
+export interface MarketDataProvider {
+  readonly name: string;
+  search(query: string): Promise<FinnhubSearchResult[]>;
+  // Full listing for one exchange ("US", "TO", ...); large, so callers should store it
+  symbols(exchange: string): Promise<FinnhubStockSymbol[]>;
+  quote(symbol: string, options?: QuoteOptions): Promise<QuoteData | null>;
+  profile(symbol: string): Promise<ProfileData | null>;
+  candles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candles>;
+  companyNews(symbol: string, range: DateRange): Promise<RawNewsArticle[]>;
+  generalNews(category?: string): Promise<RawNewsArticle[]>;
+  metrics(symbol: string): Promise<FinancialsData | null>;
+}
+
+export const emptyCandles = (): Candles => ({ timestamps: [], open: [], high: [], low: [], close: [], volume: [] });
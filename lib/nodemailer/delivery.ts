@@ -0,0 +1,67 @@
+import type { SendMailOptions } from 'nodemailer';
+import { inngest } from '@/lib/inngest/client';
+import { cancelEmailRetry, getPendingRetry, recordEmailFailed, recordEmailSent } from '@/lib/notifications/emailLog';
+import { wantsEmail } from '@/lib/notifications/preferences';
+import { getMailTransporter } from '@/lib/nodemailer/transport';
+
+// Preference category behind each opt-out email; a retry is dropped if the user opted out meanwhile
+const TEMPLATE_CATEGORIES: Partial<Record<EmailTemplate, EmailCategory>> = {
+  welcome: 'engagement',
+  inactive_reminder: 'engagement',
+  news_summary: 'digest',
+  price_alert: 'alerts',
+  volume_alert: 'alerts',
+};
+
+// Account links carry a live token and the user can ask for a new one, so these are neither
+// stored nor retried
+const UNRETRIED_TEMPLATES: EmailTemplate[] = ['email_verification', 'password_reset'];
+
+// Sends and logs one email. A failed send is handed to the retryFailedEmail Inngest function
+// instead of being thrown, so callers' own retries can't send duplicates. userId is the
+// recipient for emails gated on their notification preferences.
+export const deliverEmail = async (template: EmailTemplate, options: SendMailOptions, userId?: string): Promise<void> => {
+  try {
+    const info = await getMailTransporter().sendMail(options);
+    await recordEmailSent(template, options, info.messageId, userId);
+  } catch (err) {
+    console.error(`deliverEmail error (${template}):`, err);
+
+    const retry = !UNRETRIED_TEMPLATES.includes(template);
+    const logId = await recordEmailFailed(template, options, err, { userId, retry });
+    // Without a pending log entry there is nothing to retry from, so let the caller see the failure
+    if (!retry || !logId) throw err;
+
+    try {
+      await inngest.send({ name: 'app/email.failed', data: { logId } });
+    } catch (sendError) {
+      console.error(`deliverEmail: failed to schedule a retry (${template}):`, sendError);
+      await cancelEmailRetry(logId);
+      throw err;
+    }
+  }
+};
+
+// One resend of a logged failure. Recording the outcome is left to the caller, so a failed
+// write can be retried on its own without sending the email again.
+export const resendLoggedEmail = async (
+  logId: string
+): Promise<{ status: 'sent'; messageId: string } | { status: 'failed'; error: string } | { status: 'skipped' }> => {
+  const entry = await getPendingRetry(logId);
+  // Already resolved, or expired from the log
+  if (!entry?.message) return { status: 'skipped' };
+
+  const category = TEMPLATE_CATEGORIES[entry.template];
+  if (category && entry.userId && !(await wantsEmail(entry.userId, category))) {
+    await cancelEmailRetry(logId, 'Recipient unsubscribed before the retry');
+    return { status: 'skipped' };
+  }
+
+  try {
+    const info = await getMailTransporter().sendMail(entry.message);
+    return { status: 'sent', messageId: info.messageId };
+  } catch (err) {
+    console.error(`resendLoggedEmail error (${entry.template}):`, err);
+    return { status: 'failed', error: err instanceof Error ? err.message : String(err) };
+  }
+};
@@ -0,0 +1,72 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Transport } from 'nodemailer';
+
+// Each message is written as <id>.eml (the raw MIME message, openable in any mail client)
+// plus <id>.json with the fields /dev/emails needs, so listing never has to parse MIME
+export const createFileDropTransport = (directory: string): Transport<CapturedEmailInfo> => ({
+  name: 'file-drop',
+  version: '1.0.0',
+
+  send(mail, callback) {
+    mail.message.build(async (buildError, raw) => {
+      if (buildError) return callback(buildError, null as never);
+
+      const envelope = mail.message.getEnvelope();
+      const messageId = mail.message.messageId();
+      // Timestamp prefix keeps files in send order when listed
+      const id = `${Date.now()}-${messageId.replace(/[^a-z0-9]/gi, '').slice(0, 24)}`;
+
+      const summary: CapturedEmail = {
+        id,
+        from: typeof mail.data.from === 'string' ? mail.data.from : envelope.from || '',
+        to: envelope.to,
+        subject: mail.data.subject ?? '',
+        sentAt: new Date().toISOString(),
+        text: typeof mail.data.text === 'string' ? mail.data.text : null,
+        html: typeof mail.data.html === 'string' ? mail.data.html : null,
+      };
+
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(path.join(directory, `${id}.eml`), raw);
+        await writeFile(path.join(directory, `${id}.json`), JSON.stringify(summary, null, 2));
+        callback(null, { envelope, messageId, path: path.join(directory, `${id}.eml`) });
+      } catch (err) {
+        callback(err as Error, null as never);
+      }
+    });
+  },
+});
+
+// Newest first
+export const listCapturedEmails = async (directory: string): Promise<CapturedEmail[]> => {
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const ids = files
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length))
+    .sort()
+    .reverse();
+
+  const emails = await Promise.all(ids.map((id) => getCapturedEmail(directory, id)));
+  return emails.filter((email): email is CapturedEmail => email !== null);
+};
+
+export const getCapturedEmail = async (directory: string, id: string): Promise<CapturedEmail | null> => {
+  // Ids come from the URL; anything but the generated shape could walk out of the directory
+  if (!/^[\w-]+$/.test(id)) return null;
+
+  try {
+    return JSON.parse(await readFile(path.join(directory, `${id}.json`), 'utf8')) as CapturedEmail;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+};
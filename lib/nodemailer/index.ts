@@ -1,44 +1,210 @@
-import nodemailer from 'nodemailer';
-import {WELCOME_EMAIL_TEMPLATE, NEWS_SUMMARY_EMAIL_TEMPLATE} from "@/lib/nodemailer/templates";
-
-export const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-        user: process.env.NODEMAILER_EMAIL!,
-        pass: process.env.NODEMAILER_PASSWORD!,
-    }
-})
+import {
+    WELCOME_EMAIL_TEMPLATE,
+    NEWS_SUMMARY_EMAIL_TEMPLATE,
+    STOCK_ALERT_UPPER_EMAIL_TEMPLATE,
+    STOCK_ALERT_LOWER_EMAIL_TEMPLATE,
+    VOLUME_ALERT_EMAIL_TEMPLATE,
+    EMAIL_VERIFICATION_EMAIL_TEMPLATE,
+    PASSWORD_RESET_EMAIL_TEMPLATE,
+    INACTIVE_USER_REMINDER_EMAIL_TEMPLATE,
+} from "@/lib/nodemailer/templates";
+import {deliverEmail} from "@/lib/nodemailer/delivery";
+import {getMailSender} from "@/lib/nodemailer/transport";
+import {formatChangePercent, formatPrice} from "@/lib/utils";
+
+// Symbols, watchlist names and user names are user-controlled, so they're escaped before going
+// into HTML, and kept to one line in headers such as the subject
+const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const toHeaderText = (value: string) => value.replace(/\s+/g, ' ').trim();
 
-export const sendWelcomeEmail = async ({ email, name, intro }: WelcomeEmailData) => {
+// List-Unsubscribe + List-Unsubscribe-Post let mail clients unsubscribe in one click (RFC 8058)
+const unsubscribeHeaders = ({ oneClickUrl }: EmailUnsubscribeLinks) => ({
+    list: { unsubscribe: { url: oneClickUrl, comment: 'Unsubscribe' } },
+    headers: { 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+});
+
+export const sendWelcomeEmail = async ({ email, name, intro, unsubscribe }: WelcomeEmailData) => {
     const htmlTemplate = WELCOME_EMAIL_TEMPLATE
         .replace('{{name}}', name)
-        .replace('{{intro}}', intro);
+        .replace('{{intro}}', intro)
+        .replaceAll('{{unsubscribeUrl}}', unsubscribe.pageUrl);
 
     const mailOptions = {
-        from: `"Market Journal" <venegasly@gmail.com>`,
+        from: getMailSender(),
         to: email,
         subject: `Bienvenido a tu Market Journal App - tu guia diaria del mercado 📈`,
         text: 'Gracias por unirte a Market Journal App',
         html: htmlTemplate,
+        ...unsubscribeHeaders(unsubscribe),
     }
 
-    await transporter.sendMail(mailOptions);
+    await deliverEmail('welcome', mailOptions, unsubscribe.userId);
 }
 
 export const sendNewsSummaryEmail = async (
-    { email, date, newsContent }: { email: string; date: string; newsContent: string }
+    { email, date, newsContent, unsubscribe }: NewsSummaryEmailData
 ): Promise<void> => {
     const htmlTemplate = NEWS_SUMMARY_EMAIL_TEMPLATE
         .replace('{{date}}', date)
-        .replace('{{newsContent}}', newsContent);
+        .replace('{{newsContent}}', newsContent)
+        .replaceAll('{{unsubscribeUrl}}', unsubscribe.pageUrl);
 
     const mailOptions = {
-        from: `"Market Journal News" <venegasly@gmail.com>`,
+        from: getMailSender('News'),
         to: email,
         subject: `📈 Market News Summary Today - ${date}`,
         text: `Today's market news summary from Market Journal`,
         html: htmlTemplate,
+        ...unsubscribeHeaders(unsubscribe),
+    };
+
+    await deliverEmail('news_summary', mailOptions, unsubscribe.userId);
+};
+
+// Profile notes are built from the fixed option lists, so they need no escaping
+const renderProfileNote = (note: string | null) =>
+    note
+        ? `<p class="mobile-text" style="margin: 12px 0 0 0; font-size: 14px; line-height: 1.5; color: #9ca3af;">${note}</p>`
+        : '';
+
+export const sendPriceAlertEmail = async (
+    { email, symbol, company, alertType, currentPrice, targetPrice, timestamp, profileNote, unsubscribe }: PriceAlertEmailData
+): Promise<void> => {
+    const template = alertType === 'upper' ? STOCK_ALERT_UPPER_EMAIL_TEMPLATE : STOCK_ALERT_LOWER_EMAIL_TEMPLATE;
+    const htmlTemplate = template
+        .replaceAll('{{symbol}}', escapeHtml(symbol))
+        .replaceAll('{{company}}', escapeHtml(company))
+        .replaceAll('{{currentPrice}}', formatPrice(currentPrice))
+        .replaceAll('{{targetPrice}}', formatPrice(targetPrice))
+        .replaceAll('{{timestamp}}', timestamp)
+        .replaceAll('{{profileNote}}', renderProfileNote(profileNote))
+        .replaceAll('{{unsubscribeUrl}}', unsubscribe.pageUrl);
+
+    const direction = alertType === 'upper' ? 'above' : 'below';
+
+    const mailOptions = {
+        from: getMailSender('Alerts'),
+        to: email,
+        subject: `🔔 ${toHeaderText(symbol)} is ${direction} ${formatPrice(targetPrice)}`,
+        text: `${symbol} (${company}) is trading at ${formatPrice(currentPrice)}, ${direction} your target of ${formatPrice(targetPrice)}.`,
+        html: htmlTemplate,
+        ...unsubscribeHeaders(unsubscribe),
+    };
+
+    await deliverEmail('price_alert', mailOptions, unsubscribe.userId);
+};
+
+export const sendVolumeAlertEmail = async (
+    { email, symbol, company, currentPrice, changePercent, currentVolume, averageVolume, averageDays, multiplier, timestamp, profileNote, unsubscribe }: VolumeAlertEmailData
+): Promise<void> => {
+    const ratio = currentVolume / averageVolume;
+    const toMillions = (volume: number) => (volume / 1e6).toFixed(2);
+
+    const htmlTemplate = VOLUME_ALERT_EMAIL_TEMPLATE
+        .replaceAll('{{symbol}}', escapeHtml(symbol))
+        .replaceAll('{{company}}', escapeHtml(company))
+        .replaceAll('{{timestamp}}', timestamp)
+        .replaceAll('{{currentVolume}}', toMillions(currentVolume))
+        .replaceAll('{{averageVolume}}', toMillions(averageVolume))
+        .replaceAll('{{currentPrice}}', formatPrice(currentPrice))
+        .replaceAll('{{priceColor}}', changePercent >= 0 ? '#10b981' : '#ef4444')
+        .replaceAll('{{changeDirection}}', changePercent >= 0 ? '+' : '')
+        .replaceAll('{{changePercent}}', changePercent.toFixed(2))
+        .replaceAll('{{alertMessage}}', `Volume is ${ratio.toFixed(1)}x the ${averageDays}-day average (your threshold: ${multiplier}x)`)
+        .replaceAll('{{volumeSpike}}', `${Math.round((ratio - 1) * 100)}%`)
+        .replaceAll('{{profileNote}}', renderProfileNote(profileNote))
+        .replaceAll('{{unsubscribeUrl}}', unsubscribe.pageUrl);
+
+    const mailOptions = {
+        from: getMailSender('Alerts'),
+        to: email,
+        subject: `📊 ${toHeaderText(symbol)} volume spike: ${ratio.toFixed(1)}x average`,
+        text: `${symbol} (${company}) traded ${toMillions(currentVolume)}M shares, ${ratio.toFixed(1)}x its ${averageDays}-day average.`,
+        html: htmlTemplate,
+        ...unsubscribeHeaders(unsubscribe),
+    };
+
+    await deliverEmail('volume_alert', mailOptions, unsubscribe.userId);
+};
+
+const fillAccountLinkTemplate = (template: string, { name, url, expiresIn }: AccountLinkEmailData) =>
+    template
+        .replaceAll('{{name}}', name || 'there')
+        .replaceAll('{{url}}', url)
+        .replaceAll('{{expiresIn}}', expiresIn);
+
+export const sendVerificationEmail = async (data: AccountLinkEmailData): Promise<void> => {
+    const mailOptions = {
+        from: getMailSender(),
+        to: data.email,
+        subject: `Confirm your email for Market Journal`,
+        text: `Confirm your email address by opening this link (expires in ${data.expiresIn}): ${data.url}`,
+        html: fillAccountLinkTemplate(EMAIL_VERIFICATION_EMAIL_TEMPLATE, data),
+    };
+
+    await deliverEmail('email_verification', mailOptions);
+};
+
+export const sendPasswordResetEmail = async (data: AccountLinkEmailData): Promise<void> => {
+    const mailOptions = {
+        from: getMailSender(),
+        to: data.email,
+        subject: `Reset your Market Journal password`,
+        text: `Reset your password by opening this link (expires in ${data.expiresIn}): ${data.url}. If you didn't ask for this, ignore this email.`,
+        html: fillAccountLinkTemplate(PASSWORD_RESET_EMAIL_TEMPLATE, data),
+    };
+
+    await deliverEmail('password_reset', mailOptions);
+};
+
+const renderWatchlistSnapshot = (watchlistSize: number, moves: WatchlistMove[]) => {
+    if (watchlistSize === 0) {
+        return `<p class="mobile-text" style="margin: 0; font-size: 14px; line-height: 1.5; color: #ccdadc;">Your watchlist is empty. Add a few stocks and we'll keep an eye on them for you.</p>`;
+    }
+
+    if (moves.length === 0) {
+        return `<p class="mobile-text" style="margin: 0; font-size: 14px; line-height: 1.5; color: #ccdadc;">Prices for your watchlist are unavailable right now. Open your dashboard to see the latest moves.</p>`;
+    }
+
+    const rows = moves.map(({ symbol, company, price, changePercent }) => `
+        <tr>
+            <td style="padding: 8px 0; font-size: 14px; color: #ffffff; font-weight: 600;">${escapeHtml(symbol)}</td>
+            <td style="padding: 8px 8px; font-size: 14px; color: #9ca3af;">${escapeHtml(company)}</td>
+            <td style="padding: 8px 8px; font-size: 14px; color: #ccdadc; text-align: right;">${formatPrice(price)}</td>
+            <td style="padding: 8px 0; font-size: 14px; font-weight: 600; text-align: right; color: ${changePercent >= 0 ? '#10b981' : '#ef4444'};">${formatChangePercent(changePercent) || '0.00%'}</td>
+        </tr>`).join('');
+
+    return `<table role="presentation" cellspacing="0" cellpadding="0" border="0" style="width: 100%;">${rows}</table>`;
+};
+
+export const sendInactiveUserReminderEmail = async (
+    { email, name, awaySince, watchlistSize, moves, dashboardUrl, unsubscribe }: InactiveUserReminderEmailData
+): Promise<void> => {
+    const htmlTemplate = INACTIVE_USER_REMINDER_EMAIL_TEMPLATE
+        .replaceAll('{{name}}', escapeHtml(name || 'there'))
+        .replaceAll('{{awaySince}}', awaySince)
+        .replaceAll('{{watchlistSnapshot}}', renderWatchlistSnapshot(watchlistSize, moves))
+        .replaceAll('{{dashboardUrl}}', dashboardUrl)
+        .replaceAll('{{unsubscribeUrl}}', unsubscribe.pageUrl);
+
+    const summary = moves
+        .map(({ symbol, price, changePercent }) => `${symbol} ${formatPrice(price)} (${formatChangePercent(changePercent) || '0.00%'})`)
+        .join(', ');
+
+    const mailOptions = {
+        from: getMailSender(),
+        to: email,
+        subject: `Here's what your watchlist did since ${awaySince}`,
+        text: summary
+            ? `Since your last visit on ${awaySince}: ${summary}. Catch up at ${dashboardUrl}`
+            : watchlistSize > 0
+            ? `It's been a while since your last visit on ${awaySince}. Your watchlist's latest prices are waiting at ${dashboardUrl}`
+            : `It's been a while since your last visit on ${awaySince}. Catch up at ${dashboardUrl}`,
+        html: htmlTemplate,
+        ...unsubscribeHeaders(unsubscribe),
     };
 
-    await transporter.sendMail(mailOptions);
-};
\ No newline at end of file
+    await deliverEmail('inactive_reminder', mailOptions, unsubscribe.userId);
+};
@@ -0,0 +1,110 @@
+import path from 'path';
+import nodemailer, { type Transport, type Transporter } from 'nodemailer';
+import { createFileDropTransport } from '@/lib/nodemailer/file-drop';
+
+export type MailTransportKind = 'smtp' | 'gmail' | 'file' | 'console';
+
+const MAIL_TRANSPORT_KINDS: MailTransportKind[] = ['smtp', 'gmail', 'file', 'console'];
+
+let transporter: Transporter | null = null;
+
+// Transports that never deliver, so a misconfigured deployment can't silently drop mail
+const DEVELOPMENT_ONLY_KINDS: MailTransportKind[] = ['file', 'console'];
+
+// MAIL_TRANSPORT picks the backend explicitly. Without it, SMTP_HOST selects SMTP, NODEMAILER_EMAIL
+// selects Gmail, and in development mail is only printed so a fresh checkout never tries to send.
+// Outside development, an unconfigured transport or a file/console one is an error.
+export const getMailTransportKind = (): MailTransportKind => {
+  const isDevelopment = process.env.NODE_ENV === 'development';
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+
+  if (configured) {
+    if (!MAIL_TRANSPORT_KINDS.includes(configured as MailTransportKind)) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${configured}" (expected ${MAIL_TRANSPORT_KINDS.join(', ')})`);
+    }
+    if (!isDevelopment && DEVELOPMENT_ONLY_KINDS.includes(configured as MailTransportKind)) {
+      throw new Error(`MAIL_TRANSPORT=${configured} only works in development; configure smtp or gmail`);
+    }
+    return configured as MailTransportKind;
+  }
+
+  if (process.env.SMTP_HOST) return 'smtp';
+  if (process.env.NODEMAILER_EMAIL) return 'gmail';
+  if (!isDevelopment) throw new Error('No mail transport configured: set SMTP_HOST or NODEMAILER_EMAIL');
+  return 'console';
+};
+
+// Where the file-drop transport writes .eml files, and where /dev/emails reads them from
+export const getMailDropDirectory = () => process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.emails');
+
+// Prints the envelope and plain-text body instead of sending
+const createConsoleTransport = (): Transport<CapturedEmailInfo> => ({
+  name: 'console',
+  version: '1.0.0',
+
+  send(mail, callback) {
+    const envelope = mail.message.getEnvelope();
+    const messageId = mail.message.messageId();
+
+    console.info(
+      [
+        '--- email (MAIL_TRANSPORT=console) ---',
+        `From: ${typeof mail.data.from === 'string' ? mail.data.from : envelope.from}`,
+        `To: ${envelope.to.join(', ')}`,
+        `Subject: ${mail.data.subject ?? ''}`,
+        '',
+        typeof mail.data.text === 'string' ? mail.data.text : '(no plain-text body)',
+        '--------------------------------------',
+      ].join('\n')
+    );
+
+    callback(null, { envelope, messageId });
+  },
+});
+
+const createTransporter = (kind: MailTransportKind): Transporter => {
+  switch (kind) {
+    case 'smtp': {
+      const user = process.env.SMTP_USER;
+      return nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        // true for port 465; STARTTLS is negotiated on 587 either way
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: user ? { user, pass: process.env.SMTP_PASSWORD } : undefined,
+      });
+    }
+    case 'gmail':
+      return nodemailer.createTransport({
+        service: 'gmail',
+        auth: {
+          user: process.env.NODEMAILER_EMAIL!,
+          pass: process.env.NODEMAILER_PASSWORD!,
+        },
+      });
+    case 'file':
+      return nodemailer.createTransport(createFileDropTransport(getMailDropDirectory()));
+    case 'console':
+      return nodemailer.createTransport(createConsoleTransport());
+  }
+};
+
+export const getMailTransporter = (): Transporter => {
+  if (!transporter) transporter = createTransporter(getMailTransportKind());
+  return transporter;
+};
+
+// Lets tests and scripts swap in their own implementation
+export const setMailTransporter = (next: Transporter | null) => {
+  transporter = next;
+};
+
+// "Market Journal Alerts" <alerts@example.com>. MAIL_FROM_NAME and MAIL_FROM_ADDRESS set the
+// sender; the address falls back to the account the transport signs in with.
+export const getMailSender = (label?: string) => {
+  const name = process.env.MAIL_FROM_NAME || 'Market Journal';
+  const address =
+    process.env.MAIL_FROM_ADDRESS || process.env.SMTP_USER || process.env.NODEMAILER_EMAIL || 'no-reply@localhost';
+
+  return `"${label ? `${name} ${label}` : name}" <${address}>`;
+};
@@ -0,0 +1,132 @@
+import type { SendMailOptions } from 'nodemailer';
+import { connectToDatabase } from '@/database/mongoose';
+import { EmailLog } from '@/database/models/emailLog.model';
+
+type EmailLogFilter = {
+  query?: string;
+  status?: EmailLogStatus;
+  limit: number;
+};
+
+const recipientOf = (options: SendMailOptions) => (typeof options.to === 'string' ? options.to : JSON.stringify(options.to));
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Never throws: a failed write must not hide whether the email itself went out
+export const recordEmailSent = async (template: EmailTemplate, options: SendMailOptions, messageId?: string, userId?: string) => {
+  try {
+    await connectToDatabase();
+    await EmailLog.create({
+      to: recipientOf(options),
+      userId,
+      template,
+      subject: options.subject ?? '',
+      status: 'sent',
+      messageId,
+    });
+  } catch (err) {
+    console.error('recordEmailSent error:', err);
+  }
+};
+
+// With retry, keeps the rendered message for retryFailedEmail; without it the entry is final and
+// the message isn't stored. Returns the entry id, or null if it couldn't be saved.
+export const recordEmailFailed = async (
+  template: EmailTemplate,
+  options: SendMailOptions,
+  err: unknown,
+  { userId, retry }: { userId?: string; retry: boolean }
+) => {
+  try {
+    await connectToDatabase();
+    const entry = await EmailLog.create({
+      to: recipientOf(options),
+      userId,
+      template,
+      subject: options.subject ?? '',
+      status: retry ? 'retrying' : 'failed',
+      error: errorMessage(err),
+      ...(retry ? { message: options } : {}),
+    });
+    return String(entry._id);
+  } catch (logError) {
+    console.error('recordEmailFailed error:', logError);
+    return null;
+  }
+};
+
+export const getPendingRetry = async (logId: string) => {
+  await connectToDatabase();
+  return EmailLog.findOne({ _id: logId, status: 'retrying' }).lean();
+};
+
+// Ends a pending retry without another attempt. Never throws, like the other writes made
+// while handling a failure; error replaces the stored one when given.
+export const cancelEmailRetry = async (logId: string, error?: string) => {
+  try {
+    await connectToDatabase();
+    await EmailLog.updateOne(
+      { _id: logId, status: 'retrying' },
+      { $set: { status: 'failed', ...(error ? { error } : {}) }, $unset: { message: 1 } }
+    );
+  } catch (err) {
+    console.error('cancelEmailRetry error:', err);
+  }
+};
+
+// Drops the stored message once it can no longer be resent
+export const recordRetryOutcome = async (
+  logId: string,
+  outcome: { messageId: string } | { error: unknown; final: boolean }
+) => {
+  await connectToDatabase();
+
+  if ('messageId' in outcome) {
+    await EmailLog.updateOne(
+      { _id: logId },
+      { $set: { status: 'sent', messageId: outcome.messageId }, $inc: { attempts: 1 }, $unset: { message: 1 } }
+    );
+    return;
+  }
+
+  await EmailLog.updateOne(
+    { _id: logId },
+    {
+      $set: { status: outcome.final ? 'failed' : 'retrying', error: errorMessage(outcome.error) },
+      $inc: { attempts: 1 },
+      ...(outcome.final ? { $unset: { message: 1 } } : {}),
+    }
+  );
+};
+
+// Newest first; query matches the recipient, subject or template name
+export const searchEmailLogs = async ({ query, status, limit }: EmailLogFilter): Promise<EmailLogEntry[]> => {
+  await connectToDatabase();
+
+  const needle = query?.trim();
+  const pattern = needle ? new RegExp(escapeRegex(needle), 'i') : null;
+
+  const entries = await EmailLog.find({
+    ...(status ? { status } : {}),
+    ...(pattern ? { $or: [{ to: pattern }, { subject: pattern }, { template: pattern }] } : {}),
+  })
+    .select('-message')
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean();
+
+  return entries.map((entry) => ({
+    id: String(entry._id),
+    to: entry.to,
+    template: entry.template,
+    subject: entry.subject,
+    status: entry.status,
+    attempts: entry.attempts,
+    error: entry.error ?? null,
+    messageId: entry.messageId ?? null,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    updatedAt: new Date(entry.updatedAt).toISOString(),
+  }));
+};
@@ -0,0 +1,178 @@
+import { connectToDatabase } from '@/database/mongoose';
+import { NotificationPreferences } from '@/database/models/notificationPreferences.model';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/constants';
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar date and hour in a timezone, e.g. { date: '2025-03-14', hour: 8 }
+export const getLocalDateTime = (timezone: string, at = new Date()) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, part.value])
+  );
+
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour) };
+};
+
+// Local hours that started since the previous hourly run. Usually just the current hour; on a
+// spring-forward day it also holds the skipped hour, so a 2:00 digest goes out at 3:00 instead
+// of not at all. On a fall-back day the repeated hour is left out.
+const hoursStartedSince = (timezone: string, now: Date) => {
+  const current = getLocalDateTime(timezone, now);
+  const previous = getLocalDateTime(timezone, new Date(now.getTime() - 60 * 60 * 1000));
+  const first = previous.date === current.date ? previous.hour + 1 : 0;
+
+  return {
+    date: current.date,
+    hours: Array.from({ length: Math.max(current.hour - first + 1, 0) }, (_, index) => first + index),
+  };
+};
+
+// Users whose digest hour has just arrived in their timezone, with their local date. The
+// matching happens in Mongo per timezone, so the hourly run doesn't load every user.
+export const getDueDigestRecipients = async (now = new Date()) => {
+  const mongoose = await connectToDatabase();
+
+  const timezones: string[] = await NotificationPreferences.distinct('timezone', { digest: true });
+  const slots = timezones
+    .map((timezone) => ({ timezone, ...hoursStartedSince(timezone, now) }))
+    .filter((slot) => slot.hours.length > 0);
+
+  const items = slots.length
+    ? await NotificationPreferences.find(
+        { digest: true, $or: slots.map((slot) => ({ timezone: slot.timezone, digestHour: { $in: slot.hours } })) },
+        { userId: 1, timezone: 1 }
+      ).lean()
+    : [];
+  const due = items.map((item) => ({ userId: item.userId, localDate: getLocalDateTime(item.timezone, now).date }));
+
+  // Users who never saved preferences get the defaults, so they're only due at the default hour
+  const defaults = hoursStartedSince(DEFAULT_NOTIFICATION_PREFERENCES.timezone, now);
+  if (!DEFAULT_NOTIFICATION_PREFERENCES.digest || !defaults.hours.includes(DEFAULT_NOTIFICATION_PREFERENCES.digestHour)) {
+    return due;
+  }
+
+  const db = mongoose.connection.db;
+  if (!db) throw new Error('Mongoose connection not connected');
+
+  const withoutPreferences = await db
+    .collection('user')
+    .aggregate<{ userId: string }>([
+      { $match: { email: { $exists: true, $ne: null } } },
+      { $project: { userId: { $ifNull: ['$id', { $toString: '$_id' }] } } },
+      {
+        $lookup: {
+          from: NotificationPreferences.collection.collectionName,
+          localField: 'userId',
+          foreignField: 'userId',
+          as: 'preferences',
+        },
+      },
+      { $match: { preferences: { $size: 0 } } },
+      { $project: { _id: 0, userId: 1 } },
+    ])
+    .toArray();
+
+  return [...due, ...withoutPreferences.map(({ userId }) => ({ userId, localDate: defaults.date }))];
+};
+
+export const parseNotificationPreferences = (data: NotificationPreferences) => {
+  const digestHour = Number(data.digestHour);
+  const timezone = data.timezone?.trim();
+
+  if (!Number.isInteger(digestHour) || digestHour < 0 || digestHour > 23) return { error: 'Pick a delivery time' } as const;
+  if (!timezone || !isValidTimezone(timezone)) return { error: 'Pick a valid timezone' } as const;
+
+  return {
+    value: {
+      digest: Boolean(data.digest),
+      alerts: Boolean(data.alerts),
+      engagement: Boolean(data.engagement),
+      digestHour,
+      timezone,
+    },
+  } as const;
+};
+
+// Not server actions: like lib/profile, these take any user id and are for trusted server code
+export const getNotificationPreferencesByIds = async (userIds: string[]): Promise<Map<string, NotificationPreferences>> => {
+  const ids = [...new Set(userIds.filter(Boolean))];
+  const preferences = new Map(ids.map((id) => [id, { ...DEFAULT_NOTIFICATION_PREFERENCES }]));
+  if (ids.length === 0) return preferences;
+
+  await connectToDatabase();
+  const items = await NotificationPreferences.find({ userId: { $in: ids } }).lean();
+  for (const item of items) {
+    preferences.set(item.userId, {
+      digest: item.digest,
+      alerts: item.alerts,
+      engagement: item.engagement,
+      digestHour: item.digestHour,
+      timezone: item.timezone,
+    });
+  }
+
+  return preferences;
+};
+
+export const getNotificationPreferences = async (userId: string) => {
+  await connectToDatabase();
+  const item = await NotificationPreferences.findOne({ userId }).lean();
+  if (!item) return { preferences: { ...DEFAULT_NOTIFICATION_PREFERENCES }, saved: false };
+
+  return {
+    preferences: {
+      digest: item.digest,
+      alerts: item.alerts,
+      engagement: item.engagement,
+      digestHour: item.digestHour,
+      timezone: item.timezone,
+    },
+    saved: true,
+  };
+};
+
+export const saveNotificationPreferences = async (userId: string, preferences: NotificationPreferences) => {
+  await connectToDatabase();
+  await NotificationPreferences.updateOne({ userId }, preferences, { upsert: true, runValidators: true });
+};
+
+// Turns one category off, creating the document from defaults if the user never saved one
+export const unsubscribeFromCategory = async (userId: string, category: EmailCategory) => {
+  await connectToDatabase();
+  // Mongo rejects $set and $setOnInsert on the same path, so the category is left out here
+  const defaults = Object.fromEntries(
+    Object.entries(DEFAULT_NOTIFICATION_PREFERENCES).filter(([key]) => key !== category)
+  );
+  await NotificationPreferences.updateOne(
+    { userId },
+    { $set: { [category]: false }, $setOnInsert: defaults },
+    { upsert: true }
+  );
+};
+
+export const wantsEmail = async (userId: string, category: EmailCategory) => {
+  const preferences = await getNotificationPreferencesByIds([userId]);
+  return preferences.get(userId)?.[category] ?? true;
+};
+
+// Keeps the items whose user still wants this kind of email
+export const filterByEmailPreference = async <T>(items: T[], getUserId: (item: T) => string, category: EmailCategory) => {
+  const preferences = await getNotificationPreferencesByIds(items.map(getUserId));
+  return items.filter((item) => preferences.get(getUserId(item))?.[category] ?? true);
+};
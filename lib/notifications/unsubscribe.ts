@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getAppUrl } from '@/lib/utils';
+
+const CATEGORIES: EmailCategory[] = ['digest', 'alerts', 'engagement'];
+
+const sign = (payload: string) => {
+  const secret = process.env.BETTER_AUTH_SECRET;
+  if (!secret) throw new Error('BETTER_AUTH_SECRET is not set');
+  return createHmac('sha256', secret).update(`unsubscribe:${payload}`).digest('base64url');
+};
+
+// Tokens don't expire: an unsubscribe link in an old email should keep working
+export const createUnsubscribeToken = (userId: string, category: EmailCategory) => {
+  const payload = Buffer.from(`${userId}:${category}`).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+export const verifyUnsubscribeToken = (token: string): { userId: string; category: EmailCategory } | null => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const [userId, category] = Buffer.from(payload, 'base64url').toString().split(':');
+  if (!userId || !CATEGORIES.includes(category as EmailCategory)) return null;
+
+  return { userId, category: category as EmailCategory };
+};
+
+// Page link for the email footer; the one-click POST endpoint for the List-Unsubscribe header
+export const getUnsubscribeLinks = (userId: string, category: EmailCategory) => {
+  const token = encodeURIComponent(createUnsubscribeToken(userId, category));
+  return {
+    userId,
+    pageUrl: getAppUrl(`/unsubscribe?token=${token}`),
+    oneClickUrl: getAppUrl(`/api/unsubscribe?token=${token}`),
+  };
+};
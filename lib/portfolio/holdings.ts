@@ -0,0 +1,166 @@
+type LotState = OpenLot;
+
+type PositionState = {
+  lots: LotState[];
+  realizedPnl: number;
+  dividends: number;
+};
+
+export type HoldingsResult = {
+  holdings: Holding[];
+  cash: number;
+  realizedPnl: number;
+  dividends: number;
+  fees: number;
+  warnings: string[];
+};
+
+// Fractional share math leaves dust like 1e-12 behind; treat it as zero
+const EPSILON = 1e-9;
+
+// executedAt is date-only, so same-day transactions tie. Money and shares come in before they go
+// out, so a sell never runs ahead of the buy it closes; then ids (ObjectIds) keep entry order.
+const SAME_DAY_ORDER: Record<TransactionType, number> = {
+  deposit: 0,
+  buy: 1,
+  split: 2,
+  dividend: 2,
+  fee: 3,
+  sell: 3,
+  withdrawal: 3,
+};
+
+const compareTransactions = (a: PortfolioTransaction, b: PortfolioTransaction) =>
+  a.executedAt.localeCompare(b.executedAt) ||
+  SAME_DAY_ORDER[a.type] - SAME_DAY_ORDER[b.type] ||
+  a.id.localeCompare(b.id);
+
+// Orders the open lots a sell consumes. Specific-lot sells take the chosen lots first
+// and fall back to FIFO for whatever the selection doesn't cover.
+const orderLotsForSale = (lots: LotState[], method: CostBasisMethod, sale: PortfolioTransaction) => {
+  if (method === 'lifo') return [...lots].reverse().map((lot) => ({ lot, limit: Infinity }));
+  if (method === 'fifo' || sale.lots.length === 0) return lots.map((lot) => ({ lot, limit: Infinity }));
+
+  const selected = sale.lots.flatMap((selection) => {
+    const lot = lots.find((candidate) => candidate.lotId === selection.lotId);
+    return lot ? [{ lot, limit: selection.quantity }] : [];
+  });
+  return [...selected, ...lots.map((lot) => ({ lot, limit: Infinity }))];
+};
+
+export const computeHoldings = (transactions: PortfolioTransaction[], method: CostBasisMethod): HoldingsResult => {
+  const positions = new Map<string, PositionState>();
+  const warnings: string[] = [];
+  let cash = 0;
+  let fees = 0;
+
+  const getPosition = (symbol: string) => {
+    const existing = positions.get(symbol);
+    if (existing) return existing;
+    const created: PositionState = { lots: [], realizedPnl: 0, dividends: 0 };
+    positions.set(symbol, created);
+    return created;
+  };
+
+  const ordered = [...transactions].sort(compareTransactions);
+
+  for (const tx of ordered) {
+    // Every type's fees come out of cash, so the fee total and the cash balance agree
+    fees += tx.fees;
+
+    switch (tx.type) {
+      case 'deposit':
+        cash += tx.amount - tx.fees;
+        break;
+      case 'withdrawal':
+        cash -= tx.amount + tx.fees;
+        break;
+      case 'fee':
+        cash -= tx.amount + tx.fees;
+        fees += tx.amount;
+        break;
+      case 'dividend': {
+        cash += tx.amount - tx.fees;
+        if (tx.symbol) getPosition(tx.symbol).dividends += tx.amount - tx.fees;
+        break;
+      }
+      case 'buy': {
+        if (!tx.symbol || tx.quantity <= 0) break;
+        cash -= tx.quantity * tx.price + tx.fees;
+        // Commissions are part of what the shares cost
+        getPosition(tx.symbol).lots.push({
+          lotId: tx.id,
+          symbol: tx.symbol,
+          acquiredAt: tx.executedAt,
+          quantity: tx.quantity,
+          costPerShare: tx.price + tx.fees / tx.quantity,
+        });
+        break;
+      }
+      case 'sell': {
+        if (!tx.symbol || tx.quantity <= 0) break;
+        const position = getPosition(tx.symbol);
+        cash += tx.quantity * tx.price - tx.fees;
+
+        let remaining = tx.quantity;
+        let matchedCost = 0;
+        for (const { lot, limit } of orderLotsForSale(position.lots, method, tx)) {
+          if (remaining <= EPSILON) break;
+          const take = Math.min(remaining, lot.quantity, limit);
+          if (take <= EPSILON) continue;
+
+          lot.quantity -= take;
+          remaining -= take;
+          matchedCost += take * lot.costPerShare;
+        }
+        position.lots = position.lots.filter((lot) => lot.quantity > EPSILON);
+
+        const matchedQuantity = tx.quantity - remaining;
+        if (remaining > EPSILON) {
+          warnings.push(
+            `Sell of ${tx.quantity} ${tx.symbol} on ${tx.executedAt.slice(0, 10)} exceeds the ${matchedQuantity} shares held`
+          );
+        }
+
+        // Fees are spread over the matched shares so an oversized sell doesn't book them twice
+        const proceeds = matchedQuantity * tx.price - (tx.fees * matchedQuantity) / tx.quantity;
+        position.realizedPnl += proceeds - matchedCost;
+        break;
+      }
+      case 'split': {
+        cash -= tx.fees;
+        if (!tx.symbol || !tx.splitRatio) break;
+        for (const lot of getPosition(tx.symbol).lots) {
+          lot.quantity *= tx.splitRatio;
+          lot.costPerShare /= tx.splitRatio;
+        }
+        break;
+      }
+    }
+  }
+
+  const holdings: Holding[] = [...positions.entries()]
+    .map(([symbol, position]) => {
+      const quantity = position.lots.reduce((total, lot) => total + lot.quantity, 0);
+      const costBasis = position.lots.reduce((total, lot) => total + lot.quantity * lot.costPerShare, 0);
+      return {
+        symbol,
+        quantity,
+        averageCost: quantity > EPSILON ? costBasis / quantity : 0,
+        costBasis,
+        realizedPnl: position.realizedPnl,
+        dividends: position.dividends,
+        lots: position.lots,
+      };
+    })
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+  return {
+    holdings,
+    cash,
+    realizedPnl: holdings.reduce((total, holding) => total + holding.realizedPnl, 0),
+    dividends: holdings.reduce((total, holding) => total + holding.dividends, 0),
+    fees,
+    warnings,
+  };
+};
@@ -0,0 +1,56 @@
+import { parseDateInput } from '@/lib/utils';
+
+const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'split', 'fee', 'deposit', 'withdrawal'];
+
+const parseNumber = (value: string | undefined) => (value?.trim() ? Number(value) : 0);
+
+// Validates raw form or CSV values and normalizes them to what the Transaction model stores
+export const parseTransactionData = (data: TransactionFormData) => {
+  const type = data.type;
+  const symbol = data.symbol?.trim().toUpperCase() || null;
+  const quantity = parseNumber(data.quantity);
+  const price = parseNumber(data.price);
+  const amount = parseNumber(data.amount);
+  const fees = parseNumber(data.fees);
+  const splitRatio = data.splitRatio?.trim() ? Number(data.splitRatio) : null;
+  // Trades are recorded by calendar day, so date-only values become UTC midnight
+  const executedAt = parseDateInput(data.executedAt);
+
+  if (!TRANSACTION_TYPES.includes(type)) return { error: 'Invalid transaction type' } as const;
+  if (Number.isNaN(executedAt.getTime())) return { error: 'Transaction date is required' } as const;
+  if (![quantity, price, amount, fees].every((value) => Number.isFinite(value) && value >= 0)) {
+    return { error: 'Amounts cannot be negative' } as const;
+  }
+
+  const needsSymbol = type === 'buy' || type === 'sell' || type === 'dividend' || type === 'split';
+  if (needsSymbol && !symbol) return { error: 'Symbol is required' } as const;
+
+  if ((type === 'buy' || type === 'sell') && (quantity <= 0 || price <= 0)) {
+    return { error: 'Quantity and price must be positive' } as const;
+  }
+  if ((type === 'dividend' || type === 'fee' || type === 'deposit' || type === 'withdrawal') && amount <= 0) {
+    return { error: 'Amount must be positive' } as const;
+  }
+  if (type === 'split' && (splitRatio === null || !Number.isFinite(splitRatio) || splitRatio <= 0)) {
+    return { error: 'Split ratio must be a positive number' } as const;
+  }
+
+  const lots = type === 'sell' ? (data.lots ?? []).filter((lot) => lot.lotId && lot.quantity > 0) : [];
+  const selectedQuantity = lots.reduce((total, lot) => total + lot.quantity, 0);
+  if (selectedQuantity > quantity) return { error: 'Selected lots exceed the quantity sold' } as const;
+
+  return {
+    value: {
+      type,
+      symbol: needsSymbol || type === 'fee' ? symbol : null,
+      quantity: type === 'buy' || type === 'sell' ? quantity : 0,
+      price: type === 'buy' || type === 'sell' ? price : 0,
+      amount: type === 'buy' || type === 'sell' || type === 'split' ? 0 : amount,
+      fees,
+      splitRatio: type === 'split' ? splitRatio : null,
+      executedAt,
+      notes: data.notes?.trim() ?? '',
+      lots,
+    },
+  } as const;
+};
@@ -0,0 +1,93 @@
+import { connectToDatabase } from '@/database/mongoose';
+import { UserProfile } from '@/database/models/userProfile.model';
+import { INVESTMENT_GOALS, PREFERRED_INDUSTRIES, RISK_TOLERANCE_OPTIONS } from '@/lib/constants';
+
+const isOption = (options: { value: string }[], value: string) => options.some((option) => option.value === value);
+
+export const parseInvestmentProfile = (data: InvestmentProfile) => {
+  const country = data.country?.trim().toUpperCase();
+
+  if (!country || !/^[A-Z]{2}$/.test(country)) return { error: 'Select a country' } as const;
+  if (!isOption(INVESTMENT_GOALS, data.investmentGoals)) return { error: 'Select an investment goal' } as const;
+  if (!isOption(RISK_TOLERANCE_OPTIONS, data.riskTolerance)) return { error: 'Select a risk tolerance' } as const;
+  if (!isOption(PREFERRED_INDUSTRIES, data.preferredIndustry)) return { error: 'Select a preferred industry' } as const;
+
+  return {
+    value: {
+      country,
+      investmentGoals: data.investmentGoals,
+      riskTolerance: data.riskTolerance,
+      preferredIndustry: data.preferredIndustry,
+    },
+  } as const;
+};
+
+// Bullet list dropped into AI prompts in place of {{userProfile}}
+export const formatInvestmentProfile = (profile: InvestmentProfile | null | undefined) => {
+  if (!profile) return '- No investment profile provided';
+
+  return [
+    `- Country: ${profile.country}`,
+    `- Investment goals: ${profile.investmentGoals}`,
+    `- Risk tolerance: ${profile.riskTolerance}`,
+    `- Preferred industry: ${profile.preferredIndustry}`,
+  ].join('\n');
+};
+
+const ALERT_NOTES: Record<string, Record<AlertProfileNoteKind, string>> = {
+  Low: {
+    upper: 'locking in part of this gain may suit your plan better than waiting for more.',
+    lower: 'check whether this drop has taken the position past the loss you planned to accept.',
+    volume: 'unusual volume often comes before bigger swings, so it may be worth reviewing your position size.',
+  },
+  Medium: {
+    upper: 'compare this move with the profit target you set for the position.',
+    lower: 'revisit your thesis before deciding whether to hold, trim or add.',
+    volume: 'look for the news behind the activity before acting on it.',
+  },
+  High: {
+    upper: 'you may prefer to let the move run and trail your stop behind it.',
+    lower: 'this could be a chance to add if your thesis still holds.',
+    volume: 'a volume spike can mark the start of momentum worth a closer look.',
+  },
+};
+
+// One sentence for alert emails, or null when the user has no profile
+export const formatAlertProfileNote = (profile: InvestmentProfile | null | undefined, kind: AlertProfileNoteKind) => {
+  const note = profile && ALERT_NOTES[profile.riskTolerance]?.[kind];
+  if (!note) return null;
+
+  return `With ${profile.investmentGoals.toLowerCase()} goals and a ${profile.riskTolerance.toLowerCase()} risk tolerance, ${note}`;
+};
+
+// Not a server action: these take any user id, so only server code that already knows
+// who it is acting for (sign-up, background jobs) should call them
+export const saveUserProfile = async (userId: string, profile: InvestmentProfile) => {
+  await connectToDatabase();
+  await UserProfile.updateOne({ userId }, profile, { upsert: true, runValidators: true });
+};
+
+export const getUserProfile = async (userId: string): Promise<InvestmentProfile | null> => {
+  const profiles = await getUserProfilesByIds([userId]);
+  return profiles.get(userId) ?? null;
+};
+
+export const getUserProfilesByIds = async (userIds: string[]): Promise<Map<string, InvestmentProfile>> => {
+  const ids = [...new Set(userIds.filter(Boolean))];
+  if (ids.length === 0) return new Map();
+
+  await connectToDatabase();
+  const items = await UserProfile.find({ userId: { $in: ids } }).lean();
+
+  return new Map(
+    items.map((item) => [
+      item.userId,
+      {
+        country: item.country,
+        investmentGoals: item.investmentGoals,
+        riskTolerance: item.riskTolerance,
+        preferredIndustry: item.preferredIndustry,
+      },
+    ])
+  );
+};
@@ -0,0 +1,12 @@
+// ADMIN_EMAILS is a comma-separated allow-list; the app has no roles otherwise. The address must
+// be verified, or anyone could sign up with an admin's email while verification is optional.
+export const isAdminUser = (user: { email?: string | null; emailVerified?: boolean | null } | null | undefined) => {
+  if (!user?.email || !user.emailVerified) return false;
+
+  const admins = (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return admins.includes(user.email.trim().toLowerCase());
+};
@@ -0,0 +1,32 @@
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// "Chrome on macOS". Order matters above: Edge and Opera also claim to be Chrome and Safari.
+export const describeDevice = (userAgent?: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+};
+
+// The last x-forwarded-for entry is the one our proxy appended; earlier entries come from the
+// client and can be anything it likes
+export const getClientIp = (requestHeaders: Headers) =>
+  requestHeaders.get('x-forwarded-for')?.split(',').at(-1)?.trim() || requestHeaders.get('x-real-ip') || undefined;
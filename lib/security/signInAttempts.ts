@@ -0,0 +1,30 @@
+import { connectToDatabase } from '@/database/mongoose';
+import { SignInAttempt } from '@/database/models/signInAttempt.model';
+import { getClientIp } from '@/lib/security/devices';
+
+type SignInAttemptInput = {
+  email: string;
+  outcome: SignInAttemptOutcome;
+  userId?: string;
+  reason?: string;
+};
+
+// Never throws: a failed write must not change the outcome of the sign-in it describes
+export const recordSignInAttempt = async (attempt: SignInAttemptInput, requestHeaders: Headers) => {
+  try {
+    await connectToDatabase();
+    await SignInAttempt.create({
+      ...attempt,
+      email: attempt.email.trim().toLowerCase(),
+      ipAddress: getClientIp(requestHeaders),
+      userAgent: requestHeaders.get('user-agent') ?? undefined,
+    });
+  } catch (err) {
+    console.error('recordSignInAttempt error:', err);
+  }
+};
+
+export const getRecentSignInAttempts = async (email: string, limit: number) => {
+  await connectToDatabase();
+  return SignInAttempt.find({ email: email.trim().toLowerCase() }).sort({ createdAt: -1 }).limit(limit).lean();
+};
@@ -0,0 +1,50 @@
+import { createHash } from 'crypto';
+import { connectToDatabase } from '@/database/mongoose';
+import { TwoFactorChallenge } from '@/database/models/twoFactorChallenge.model';
+import { auth } from '@/lib/better-auth/auth';
+import { TWO_FACTOR_MAX_ATTEMPTS } from '@/lib/constants';
+
+// Failed codes are counted per pending sign-in in Mongo, keyed by a hash of the signed
+// two-factor cookie. Direct auth.api calls skip Better Auth's rate limiter, and an
+// in-memory count would reset on every server instance, so the cap lives here instead.
+const keyOf = (cookieValue: string) => createHash('sha256').update(cookieValue).digest('hex');
+
+// The cookie holds "<verification identifier>.<signature>"
+const identifierOf = (cookieValue: string) => cookieValue.slice(0, cookieValue.lastIndexOf('.'));
+
+// The user a pending sign-in belongs to, or null once Better Auth has dropped it
+export const getChallengeUser = async (cookieValue: string) => {
+  const { internalAdapter } = await auth.$context;
+  const verification = await internalAdapter.findVerificationValue(identifierOf(cookieValue));
+  return verification ? internalAdapter.findUserById(verification.value) : null;
+};
+
+export const isChallengeLocked = async (cookieValue: string) => {
+  await connectToDatabase();
+  const challenge = await TwoFactorChallenge.findOne({ key: keyOf(cookieValue) }).lean();
+  return (challenge?.failures ?? 0) >= TWO_FACTOR_MAX_ATTEMPTS;
+};
+
+// Returns true once the challenge is locked. Locking also deletes Better Auth's pending
+// sign-in, so the same cookie can't be replayed against its endpoints directly.
+export const recordChallengeFailure = async (cookieValue: string) => {
+  await connectToDatabase();
+  const challenge = await TwoFactorChallenge.findOneAndUpdate(
+    { key: keyOf(cookieValue) },
+    { $inc: { failures: 1 } },
+    { upsert: true, new: true }
+  ).lean();
+
+  const locked = (challenge?.failures ?? 0) >= TWO_FACTOR_MAX_ATTEMPTS;
+  if (locked) {
+    const { internalAdapter } = await auth.$context;
+    await internalAdapter.deleteVerificationByIdentifier(identifierOf(cookieValue));
+  }
+
+  return locked;
+};
+
+export const clearChallenge = async (cookieValue: string) => {
+  await connectToDatabase();
+  await TwoFactorChallenge.deleteOne({ key: keyOf(cookieValue) });
+};
@@ -11,6 +11,9 @@ import { clsx, type ClassValue } from 'clsx';
 // Previene tener clases duplicadas o contradictorias
 import { twMerge } from 'tailwind-merge';
 
+// VOLUME_ALERT_AVERAGE_DAYS: periodo por defecto del promedio de volumen para alertas de volumen
+import { VOLUME_ALERT_AVERAGE_DAYS } from '@/lib/constants';
+
 // ============================================
 // FUNCIÓN: cn (className utility)
 // ============================================
@@ -522,6 +525,46 @@ export const formatPrice = (price: number) => {
   // formatPrice(50) → "$50.00"
 };
 
+// ============================================
+// FUNCIÓN: calculateTradePnl
+// ============================================
+// Calcula el P&L realizado de un trade del journal (ya descontadas las comisiones)
+// long: gana cuando el precio de salida es mayor; short: gana cuando es menor
+// Retorna null si el trade sigue abierto (sin precio de salida)
+export const calculateTradePnl = (trade: {
+  side: TradeSide;
+  entryPrice: number;
+  exitPrice: number | null;
+  quantity: number;
+  fees: number;
+}) => {
+  if (trade.exitPrice === null || trade.exitPrice === undefined) return null;
+
+  const direction = trade.side === 'long' ? 1 : -1;
+  return (trade.exitPrice - trade.entryPrice) * trade.quantity * direction - (trade.fees || 0);
+};
+// Ejemplo: long 10 @ $100 → $110 con $2 de comisiones → 98
+
+// ============================================
+// FUNCIÓN: calculateTradeRMultiple
+// ============================================
+// Expresa el P&L de un trade en múltiplos del riesgo inicial (R)
+// 1R = distancia entre entrada y stop × cantidad
+// Retorna null si el trade está abierto o no tiene stop registrado
+export const calculateTradeRMultiple = (trade: {
+  entryPrice: number;
+  stopPrice: number | null;
+  quantity: number;
+  pnl: number | null;
+}) => {
+  if (trade.pnl === null || trade.stopPrice === null || trade.stopPrice === undefined) return null;
+
+  const risk = Math.abs(trade.entryPrice - trade.stopPrice) * trade.quantity;
+  if (risk === 0) return null;
+  return trade.pnl / risk;
+};
+// Ejemplo: entrada $100, stop $95, 10 acciones, P&L $100 → 2R
+
 // ============================================
 // FUNCIÓN: formatDateToday
 // ============================================
@@ -556,7 +599,13 @@ export const formatDateToday = new Date().toLocaleDateString('en-US', {
 //
 // RETORNA: string descriptivo de la condición
 //   Ejemplo: "Price > $150.00" o "Price < $100.00"
+//   Alertas de volumen: "Volume > 2x 20-day avg"
 export const getAlertText = (alert: Alert) => {
+  // 'volume': el threshold es un multiplicador del volumen promedio, no un precio
+  if (alert.alertType === 'volume') {
+    return `Volume > ${alert.threshold}x ${alert.averageDays ?? VOLUME_ALERT_AVERAGE_DAYS}-day avg`;
+  }
+
   // ============================================
   // DETERMINACIÓN DEL OPERADOR
   // ============================================
@@ -600,6 +649,37 @@ export const getFormattedTodayDate = () => new Date().toLocaleDateString('en-US'
 });
 // RETORNA: "Thursday, October 30, 2024" (actualizado cada vez que se llama)
 
+export const getFormattedTimestamp = (date: Date = new Date()) => `${date.toLocaleString('en-US', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+  timeZone: 'UTC',
+})} UTC`;
+// RETORNA: "Oct 30, 2024, 2:05 PM UTC" (fecha y hora para emails de alertas)
+
+// URL absoluta de una página de la app, para links en emails
+// Ejemplo: getAppUrl('/watchlist') → "https://tuapp.com/watchlist"
+export const getAppUrl = (path = '') =>
+  `${(process.env.BETTER_AUTH_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/$/, '')}${path}`;
+
+// Fecha de un formulario o de un CSV importado. Las fechas sin hora (YYYY-MM-DD, yyyyMMdd de IBKR,
+// M/D/YYYY de otros brokers) se leen como medianoche UTC, no como medianoche en la zona del servidor,
+// para que el día no cambie según dónde corra. Fechas con hora u offset se leen tal cual.
+// Ejemplo: parseDateInput('3/14/2025') → 2025-03-14T00:00:00.000Z
+export const parseDateInput = (value: string | undefined) => {
+  const input = value?.trim() ?? '';
+
+  const iso = input.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+
+  const compact = input.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) return new Date(Date.UTC(Number(compact[1]), Number(compact[2]) - 1, Number(compact[3])));
+
+  const us = input.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return new Date(Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2])));
+
+  return new Date(input);
+};
+
 // ============================================
 // FLUJO DE TRABAJO GENERAL DEL ARCHIVO:
 // ============================================
@@ -6,6 +6,12 @@ const nextConfig: NextConfig = {
   }, typescript: {
     ignoreBuildErrors: true,
   },
+  experimental: {
+    serverActions: {
+      // CSV imports send every row in one action; see MAX_IMPORT_FILE_MB
+      bodySizeLimit: '8mb',
+    },
+  },
   images: {
     domains: ['avatars.githubusercontent.com'],
   },
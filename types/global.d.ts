@@ -4,6 +4,28 @@ declare global {
         password: string;
     };
 
+    type ForgotPasswordFormData = {
+        email: string;
+    };
+
+    type ResetPasswordFormData = {
+        token: string;
+        password: string;
+        confirmPassword?: string;
+    };
+
+    // Pages opened from emailed links: /reset-password and /verify-email
+    type AuthTokenPageProps = {
+        searchParams: Promise<{ token?: string }>;
+    };
+
+    // Second sign-in step for accounts with two-factor enabled
+    type TwoFactorChallengeFormData = {
+        code: string;
+        method: 'totp' | 'backup';
+        trustDevice: boolean;
+    };
+
     type SignUpFormData = {
         fullName: string;
         email: string;
@@ -14,6 +36,80 @@ declare global {
         preferredIndustry: string;
     };
 
+    type InvestmentProfile = {
+        country: string;
+        investmentGoals: string;
+        riskTolerance: string;
+        preferredIndustry: string;
+    };
+
+    type ProfileFormProps = {
+        profile: InvestmentProfile | null;
+    };
+
+    // Email kinds a user can opt out of; verification and password reset always send
+    type EmailCategory = 'digest' | 'alerts' | 'engagement';
+
+    type NotificationPreferences = Record<EmailCategory, boolean> & {
+        digestHour: number;
+        timezone: string;
+    };
+
+    // Select fields hold strings, so the hour round-trips as one
+    type NotificationPreferencesFormData = Omit<NotificationPreferences, 'digestHour'> & {
+        digestHour: string;
+    };
+
+    type NotificationPreferencesFormProps = {
+        preferences: NotificationPreferences;
+        // False until the user saves, so the form can default the timezone to the browser's
+        saved: boolean;
+    };
+
+    type TwoFactorStatus = {
+        enabled: boolean;
+        // null when the codes couldn't be read
+        backupCodesRemaining: number | null;
+    };
+
+    type TwoFactorSettingsProps = {
+        status: TwoFactorStatus;
+    };
+
+    type TwoFactorSettingsFormData = {
+        password: string;
+        code: string;
+    };
+
+    // Better Auth session as listed on /settings/security; the token never leaves the server
+    type ActiveSession = {
+        id: string;
+        device: string;
+        ipAddress: string | null;
+        createdAt: string;
+        lastSeenAt: string;
+        current: boolean;
+    };
+
+    type ActiveSessionsListProps = {
+        sessions: ActiveSession[];
+    };
+
+    type SignInAttemptOutcome = 'success' | 'two_factor' | 'failed';
+
+    type SignInActivity = {
+        id: string;
+        outcome: SignInAttemptOutcome;
+        detail: string;
+        device: string;
+        ipAddress: string | null;
+        createdAt: string;
+    };
+
+    type SignInActivityListProps = {
+        attempts: SignInActivity[];
+    };
+
     type CountrySelectProps = {
         name: string;
         label: string;
@@ -34,6 +130,16 @@ declare global {
         value?: string;
     };
 
+    type TextAreaFieldProps = {
+        name: string;
+        label: string;
+        placeholder: string;
+        register: UseFormRegister;
+        error?: FieldError;
+        validation?: RegisterOptions;
+        rows?: number;
+    };
+
     type Option = {
         value: string;
         label: string;
@@ -61,10 +167,115 @@ declare global {
         initialStocks: StockWithWatchlistStatus[];
     };
 
+    // Footer link and List-Unsubscribe target for emails the user can opt out of
+    type EmailUnsubscribeLinks = {
+        // Whose preferences gate the email; a retry re-checks them before resending
+        userId: string;
+        pageUrl: string;
+        oneClickUrl: string;
+    };
+
     type WelcomeEmailData = {
         email: string;
         name: string;
         intro: string;
+        unsubscribe: EmailUnsubscribeLinks;
+    };
+
+    type NewsSummaryEmailData = {
+        email: string;
+        date: string;
+        newsContent: string;
+        unsubscribe: EmailUnsubscribeLinks;
+    };
+
+    // One watchlist stock's move between a user's last visit and now
+    type WatchlistMove = {
+        symbol: string;
+        company: string;
+        price: number;
+        changePercent: number;
+    };
+
+    type InactiveUserReminderEmailData = {
+        email: string;
+        name: string;
+        // Formatted date of the user's last visit
+        awaySince: string;
+        // Stocks on the watchlist; moves can be shorter when prices couldn't be fetched
+        watchlistSize: number;
+        moves: WatchlistMove[];
+        dashboardUrl: string;
+        unsubscribe: EmailUnsubscribeLinks;
+    };
+
+    // Verification and password reset links issued by Better Auth
+    type AccountLinkEmailData = {
+        email: string;
+        name: string;
+        url: string;
+        expiresIn: string;
+    };
+
+    // A message captured by the file-drop mail transport, as listed on /dev/emails
+    type CapturedEmail = {
+        id: string;
+        from: string;
+        to: string[];
+        subject: string;
+        sentAt: string;
+        text: string | null;
+        html: string | null;
+    };
+
+    type DevEmailsPageProps = {
+        searchParams: Promise<{ id?: string }>;
+    };
+
+    type CapturedEmailInfo = {
+        envelope: { from: string | false; to: string[] };
+        messageId: string;
+        // Where the .eml was written; absent for the console transport
+        path?: string;
+    };
+
+    // Which send function produced an email; stored on every EmailLog entry
+    type EmailTemplate =
+        | 'welcome'
+        | 'news_summary'
+        | 'price_alert'
+        | 'volume_alert'
+        | 'email_verification'
+        | 'password_reset'
+        | 'inactive_reminder';
+
+    // retrying: the first send failed and Inngest is still trying; failed: every retry failed too
+    type EmailLogStatus = 'sent' | 'retrying' | 'failed';
+
+    type EmailLogEntry = {
+        id: string;
+        to: string;
+        template: EmailTemplate;
+        subject: string;
+        status: EmailLogStatus;
+        attempts: number;
+        error: string | null;
+        messageId: string | null;
+        createdAt: string;
+        updatedAt: string;
+    };
+
+    type EmailLogTableProps = {
+        entries: EmailLogEntry[];
+    };
+
+    type EmailLogFiltersProps = {
+        query: string;
+        status: string;
+    };
+
+    type EmailLogPageProps = {
+        searchParams: Promise<{ q?: string; status?: string }>;
     };
 
     type User = {
@@ -91,17 +302,118 @@ declare global {
         type: string;
     };
 
+    type StockSearchParams = {
+        query?: string;
+        exchange?: string;
+        type?: string;
+        page?: number;
+    };
+
+    type StockSearchPage = {
+        query: string;
+        results: StockWithWatchlistStatus[];
+        total: number;
+        page: number;
+        pageSize: number;
+        totalPages: number;
+        exchanges: string[];
+        types: string[];
+    };
+
+    type SearchPageProps = {
+        searchParams: Promise<{
+            q?: string;
+            exchange?: string;
+            type?: string;
+            page?: string;
+        }>;
+    };
+
+    type SearchFiltersProps = {
+        query: string;
+        exchange?: string;
+        type?: string;
+        exchanges: string[];
+        types: string[];
+    };
+
+    type SearchHistoryKind = 'query' | 'stock';
+
+    type SearchHistoryEntry = {
+        id: string;
+        kind: SearchHistoryKind;
+        value: string;
+        label: string;
+        pinned: boolean;
+        lastUsedAt: string;
+    };
+
+    type SearchShortcutGroups = {
+        pinned: SearchHistoryEntry[];
+        recent: SearchHistoryEntry[];
+        watchlist: { symbol: string; company: string }[];
+    };
+
+    type SearchShortcutsProps = {
+        shortcuts: SearchShortcutGroups;
+        onOpenStock: (symbol: string) => void;
+        onRunQuery: (query: string) => void;
+        onTogglePin: (entry: SearchHistoryEntry) => void;
+        onRemove: (entry: SearchHistoryEntry) => void;
+        onClear: () => void;
+    };
+
+    type SearchHistoryRowProps = {
+        entry: SearchHistoryEntry;
+        onSelect: (entry: SearchHistoryEntry) => void;
+        onTogglePin: (entry: SearchHistoryEntry) => void;
+        onRemove: (entry: SearchHistoryEntry) => void;
+    };
+
     type FinnhubSearchResponse = {
         count: number;
         result: FinnhubSearchResult[];
     };
 
+    // One row of Finnhub's /stock/symbol listing for an exchange
+    type FinnhubStockSymbol = FinnhubSearchResult & {
+        currency?: string;
+        mic?: string;
+        figi?: string;
+    };
+
     type StockDetailsPageProps = {
         params: Promise<{
             symbol: string;
         }>;
     };
 
+    type JournalPageProps = {
+        searchParams: Promise<{
+            symbol?: string;
+        }>;
+    };
+
+    type JournalEntryPageProps = {
+        params: Promise<{
+            id: string;
+        }>;
+    };
+
+    type JournalTableProps = {
+        entries: JournalEntryData[];
+    };
+
+    type JournalBreakdownTableProps = {
+        title: string;
+        labelHeader: string;
+        rows: JournalBreakdownRow[];
+    };
+
+    type EquityCurveProps = {
+        points: JournalEquityPoint[];
+    };
+
     type WatchlistButtonProps = {
         symbol: string;
         company: string;
@@ -118,6 +430,8 @@ declare global {
 
     type ProfileData = {
         name?: string;
+        ticker?: string;
+        exchange?: string;
         marketCapitalization?: number;
     };
 
@@ -145,7 +459,9 @@ declare global {
         priceFormatted?: string;
         changeFormatted?: string;
         marketCap?: string;
+        marketCapValue?: number;
         peRatio?: string;
+        peRatioValue?: number;
     };
 
     type AlertsListProps = {
@@ -177,12 +493,15 @@ declare global {
         className?: string;
     };
 
+    type AlertType = 'upper' | 'lower' | 'volume';
+
     type AlertData = {
         symbol: string;
         company: string;
         alertName: string;
-        alertType: 'upper' | 'lower';
+        alertType: AlertType;
         threshold: string;
+        averageDays?: string;
     };
 
     type AlertModalProps = {
@@ -211,14 +530,316 @@ declare global {
         company: string;
         alertName: string;
         currentPrice: number;
-        alertType: 'upper' | 'lower';
+        alertType: AlertType;
         threshold: number;
+        averageDays?: number;
         changePercent?: number;
     };
 
+    type AlertForEvaluation = {
+        id: string;
+        userId: string;
+        email: string;
+        name: string;
+        symbol: string;
+        company: string;
+        alertName: string;
+        alertType: AlertType;
+        threshold: number;
+        averageDays: number;
+        cooldownMinutes: number;
+        lastTriggeredAt: string | null;
+    };
+
+    type AlertProfileNoteKind = 'upper' | 'lower' | 'volume';
+
+    type PriceAlertEmailData = {
+        email: string;
+        symbol: string;
+        company: string;
+        alertType: 'upper' | 'lower';
+        currentPrice: number;
+        targetPrice: number;
+        timestamp: string;
+        // From formatAlertProfileNote; omitted when the user has no investment profile
+        profileNote: string | null;
+        unsubscribe: EmailUnsubscribeLinks;
+    };
+
+    type VolumeAlertEmailData = {
+        email: string;
+        symbol: string;
+        company: string;
+        currentPrice: number;
+        changePercent: number;
+        currentVolume: number;
+        averageVolume: number;
+        averageDays: number;
+        multiplier: number;
+        timestamp: string;
+        profileNote: string | null;
+        unsubscribe: EmailUnsubscribeLinks;
+    };
+
+    type FinnhubCandleResponse = {
+        c?: number[];
+        h?: number[];
+        l?: number[];
+        o?: number[];
+        t?: number[];
+        v?: number[];
+        s: 'ok' | 'no_data';
+    };
+
+    type TradeSide = 'long' | 'short';
+
+    type JournalEntryFormData = {
+        symbol: string;
+        side: TradeSide;
+        entryPrice: string;
+        exitPrice: string;
+        stopPrice: string;
+        entryAt: string;
+        exitAt: string;
+        quantity: string;
+        fees: string;
+        strategy: string;
+        thesis: string;
+        emotions: string;
+        lessons: string;
+        notes: string;
+    };
+
+    type JournalEntryData = {
+        id: string;
+        symbol: string;
+        side: TradeSide;
+        entryPrice: number;
+        exitPrice: number | null;
+        stopPrice: number | null;
+        entryAt: string;
+        exitAt: string | null;
+        quantity: number;
+        fees: number;
+        strategy: string;
+        thesis: string;
+        emotions: string;
+        lessons: string;
+        notes: string;
+        pnl: number | null;
+        rMultiple: number | null;
+    };
+
+    type JournalBreakdownRow = {
+        label: string;
+        trades: number;
+        winRate: number;
+        pnl: number;
+        averageReturnPercent: number;
+    };
+
+    type JournalEquityPoint = {
+        date: string;
+        equity: number;
+    };
+
+    type JournalRMultipleBucket = {
+        label: string;
+        count: number;
+    };
+
+    type JournalStats = {
+        closedTrades: number;
+        openTrades: number;
+        wins: number;
+        losses: number;
+        winRate: number;
+        totalPnl: number;
+        averageWin: number;
+        averageLoss: number;
+        profitFactor: number | null;
+        expectancy: number;
+        averageReturnPercent: number;
+        maxDrawdown: number;
+        averageRMultiple: number | null;
+        rMultipleTrades: number;
+        rMultipleDistribution: JournalRMultipleBucket[];
+        byStrategy: JournalBreakdownRow[];
+        bySymbol: JournalBreakdownRow[];
+        byWeekday: JournalBreakdownRow[];
+        byHour: JournalBreakdownRow[];
+        // IANA timezone byWeekday and byHour were bucketed in
+        timezone: string;
+        equityCurve: JournalEquityPoint[];
+    };
+
+    type JournalEntryFormProps = {
+        entry?: JournalEntryData;
+        defaultSymbol?: string;
+    };
+
+    type TransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'fee' | 'deposit' | 'withdrawal';
+
+    type CostBasisMethod = 'fifo' | 'lifo' | 'specific';
+
+    type LotSelection = {
+        lotId: string;
+        quantity: number;
+    };
+
+    type TransactionFormData = {
+        type: TransactionType;
+        symbol: string;
+        quantity: string;
+        price: string;
+        amount: string;
+        fees: string;
+        splitRatio: string;
+        executedAt: string;
+        notes: string;
+        lots?: LotSelection[];
+    };
+
+    type PortfolioTransaction = {
+        id: string;
+        type: TransactionType;
+        symbol: string | null;
+        quantity: number;
+        price: number;
+        amount: number;
+        fees: number;
+        splitRatio: number | null;
+        executedAt: string;
+        notes: string;
+        lots: LotSelection[];
+    };
+
+    type OpenLot = {
+        lotId: string;
+        symbol: string;
+        acquiredAt: string;
+        quantity: number;
+        costPerShare: number;
+    };
+
+    type Holding = {
+        symbol: string;
+        quantity: number;
+        averageCost: number;
+        costBasis: number;
+        realizedPnl: number;
+        dividends: number;
+        lots: OpenLot[];
+    };
+
+    type ValuedHolding = Holding & {
+        currentPrice?: number;
+        changePercent?: number;
+        marketValue?: number;
+        unrealizedPnl?: number;
+    };
+
+    type PortfolioSummary = {
+        method: CostBasisMethod;
+        cash: number;
+        costBasis: number;
+        marketValue: number;
+        unrealizedPnl: number;
+        realizedPnl: number;
+        dividends: number;
+        fees: number;
+        holdings: ValuedHolding[];
+        warnings: string[];
+    };
+
+    type PortfolioPageProps = {
+        searchParams: Promise<{
+            method?: string;
+        }>;
+    };
+
+    type TransactionModalProps = {
+        openLots: OpenLot[];
+    };
+
+    type HoldingsTableProps = {
+        holdings: ValuedHolding[];
+    };
+
+    type TransactionLedgerProps = {
+        transactions: PortfolioTransaction[];
+    };
+
+    type MarketDataCacheKind = 'quote' | 'profile' | 'metrics' | 'news' | 'search';
+
+    type ImportTarget = 'transactions' | 'journal';
+
+    type ImportField = {
+        key: string;
+        label: string;
+        required?: boolean;
+    };
+
+    // Model field key → CSV header
+    type ImportColumnMapping = Record<string, string>;
+
+    type BrokerPreset = {
+        id: string;
+        label: string;
+        target: ImportTarget;
+        columns: ImportColumnMapping;
+    };
+
+    type SavedImportMapping = {
+        id: string;
+        name: string;
+        target: ImportTarget;
+        columns: ImportColumnMapping;
+    };
+
+    type ImportRequest = {
+        target: ImportTarget;
+        headers: string[];
+        rows: string[][];
+        columns: ImportColumnMapping;
+    };
+
+    type ImportRowStatus = 'valid' | 'error' | 'duplicate';
+
+    type ImportPreviewRow = {
+        line: number;
+        status: ImportRowStatus;
+        error?: string;
+        summary: string;
+    };
+
+    type ImportPreview = {
+        rows: ImportPreviewRow[];
+        validCount: number;
+        errorCount: number;
+        duplicateCount: number;
+    };
+
+    type ImportWizardProps = {
+        savedMappings: SavedImportMapping[];
+        defaultTarget: ImportTarget;
+    };
+
+    type ImportPreviewTableProps = {
+        preview: ImportPreview;
+    };
+
+    type ImportPageProps = {
+        searchParams: Promise<{
+            target?: string;
+        }>;
+    };
+
     type UserForNewsEmail = {
+        id: string;
         email: string;
         name: string | null;
+        profile?: InvestmentProfile | null;
     };
 }
 